@@ -124,7 +124,7 @@ export default function AdminAnalyticsPage() {
     const total = taskExecutions.length
     const completed = taskExecutions.filter(t => t.status === "completed").length
     const failed = taskExecutions.filter(t => t.status === "failed").length
-    const running = taskExecutions.filter(t => t.status === "running").length
+    const running = taskExecutions.filter(t => t.status === "running" || t.status === "resumed").length
 
     return { total, completed, failed, running }
   }
@@ -142,6 +142,8 @@ export default function AdminAnalyticsPage() {
     switch (status) {
       case "completed": return "bg-green-600"
       case "running": return "bg-blue-600"
+      case "resumed": return "bg-blue-600"
+      case "paused": return "bg-orange-600"
       case "failed": return "bg-red-600"
       case "pending": return "bg-yellow-600"
       default: return "bg-gray-600"
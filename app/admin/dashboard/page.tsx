@@ -4,9 +4,11 @@ import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
 import { Shield, LogOut, Users, Cpu, Activity, Settings, AlertTriangle, Loader2, Target, TrendingUp, Database } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 import { useAdminAuth } from "@/hooks/useAdminAuth"
+import { describeRequirements } from "@/lib/device-capabilities"
 
 interface NetworkStats {
   totalUsers: number
@@ -27,6 +29,7 @@ export default function AdminDashboard() {
   const [users, setUsers] = useState<any[]>([])
   const [operations, setOperations] = useState<any[]>([])
   const [adminLogs, setAdminLogs] = useState<any[]>([])
+  const [deadLetters, setDeadLetters] = useState<any[]>([])
   const [isLoading, setIsLoading] = useState(false)
 
   useEffect(() => {
@@ -83,7 +86,32 @@ export default function AdminDashboard() {
           .order("created_at", { ascending: false })
           .limit(10)
 
-        setOperations(opsData || [])
+        // Units verified out of total for each job
+        const { data: progressData } = await supabase
+          .from("job_progress")
+          .select("*")
+          .in("operation_id", (opsData || []).map((op) => op.id))
+        const progressByOperation = new Map((progressData || []).map((progress) => [progress.operation_id, progress]))
+
+        // Throughput each operation received over the last hour against what its weight entitles it to
+        const { data: sharesData, error: sharesError } = await supabase.rpc("get_operation_shares", {
+          p_operation_ids: (opsData || []).map((op) => op.id),
+        })
+        if (sharesError) console.error("Error fetching operation shares:", sharesError)
+        const shareByOperation = new Map((sharesData || []).map((share: any) => [share.operation_id, share]))
+
+        setOperations(
+          (opsData || []).map((op) => ({
+            ...op,
+            job_progress: progressByOperation.get(op.id) ?? null,
+            share: shareByOperation.get(op.id) ?? null,
+          })),
+        )
+
+        // Units that ran out of retries, with the errors their executions reported
+        const { data: deadLetterData, error: deadLetterError } = await supabase.rpc("get_dead_letter_units")
+        if (deadLetterError) console.error("Error fetching dead-lettered units:", deadLetterError)
+        setDeadLetters(deadLetterData || [])
       }
 
       // Fetch recent admin logs
@@ -102,6 +130,18 @@ export default function AdminDashboard() {
     }
   }
 
+  const requeueUnit = async (workUnitId: string) => {
+    const supabase = createClient()
+    const { data: requeued, error } = await supabase.rpc("requeue_work_unit", { p_work_unit_id: workUnitId })
+    if (error) {
+      console.error("Error requeueing work unit:", error)
+      return
+    }
+    if (requeued) {
+      setDeadLetters((units) => units.filter((unit) => unit.work_unit_id !== workUnitId))
+    }
+  }
+
   const handleLogout = async () => {
     await logout()
   }
@@ -267,12 +307,62 @@ export default function AdminDashboard() {
                         <div>
                           <p className="text-cyan-400 font-medium">{op.name}</p>
                           <p className="text-cyan-300 text-sm">{op.description}</p>
+                          {op.job_progress && op.job_progress.units_total > 0 && (
+                            <div className="mt-1 w-56">
+                              <div className="flex justify-between text-xs text-cyan-300">
+                                <span>
+                                  Units: {op.job_progress.units_verified}/{op.job_progress.units_total}
+                                  {op.job_progress.units_disputed > 0 && ` (${op.job_progress.units_disputed} disputed)`}
+                                  {op.job_progress.units_dead_letter > 0 && ` (${op.job_progress.units_dead_letter} dead-lettered)`}
+                                </span>
+                                <span
+                                  className={
+                                    op.job_status === "completed"
+                                      ? "text-green-400"
+                                      : op.job_status === "failed"
+                                        ? "text-red-400"
+                                        : "text-cyan-300"
+                                  }
+                                >
+                                  {op.job_status}
+                                </span>
+                              </div>
+                              <Progress
+                                value={(op.job_progress.units_verified / op.job_progress.units_total) * 100}
+                                className="h-1"
+                              />
+                            </div>
+                          )}
+                          {op.job_status === "failed" && op.job_result?.error && (
+                            <p className="text-red-400 text-xs">Reducer failed: {op.job_result.error}</p>
+                          )}
+                          {op.aggregate_result?.kind === "monte_carlo" && op.aggregate_result.mean !== null && (
+                            <p className="text-green-400 text-xs font-mono">
+                              Estimate: {Number(op.aggregate_result.mean).toPrecision(8)}
+                              {op.aggregate_result.standard_error !== null &&
+                                ` ± ${Number(op.aggregate_result.standard_error).toPrecision(3)}`}{" "}
+                              ({Number(op.aggregate_result.count).toLocaleString()} samples,{" "}
+                              {op.aggregate_result.units_verified}/{op.aggregate_result.units_total} units)
+                            </p>
+                          )}
                         </div>
                         <div className="text-right">
                           <p className="text-cyan-300 text-sm">Power: {op.required_compute_power}</p>
                           <p className="text-cyan-300 text-xs">
                             Threshold: {op.unlock_threshold}
                           </p>
+                          <p className="text-cyan-300 text-xs">
+                            Priority {op.priority} · Weight {Number(op.share_weight)}
+                          </p>
+                          {describeRequirements(op).length > 0 && (
+                            <p className="text-cyan-300 text-xs">Needs: {describeRequirements(op).join(" · ")}</p>
+                          )}
+                          {op.share && (
+                            <p className="text-cyan-300 text-xs" title="Share of completed compute time over the last hour">
+                              Share: {(Number(op.share.throughput_share) * 100).toFixed(1)}%
+                              {" "}(target {(Number(op.share.target_share) * 100).toFixed(1)}%)
+                            </p>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -283,6 +373,50 @@ export default function AdminDashboard() {
           )}
         </div>
 
+        {/* Dead-Lettered Work Units */}
+        {hasPermission("view_operations") && deadLetters.length > 0 && (
+          <Card className="border-red-400 bg-slate-950/80 mb-8">
+            <CardHeader>
+              <CardTitle className="text-red-400 flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5" />
+                Dead-Lettered Work Units
+              </CardTitle>
+              <CardDescription className="text-cyan-300">
+                Units that failed more often than their operation allows
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {deadLetters.map((unit) => (
+                  <div key={unit.work_unit_id} className="flex items-start justify-between gap-4 p-3 bg-slate-900/50 rounded">
+                    <div className="min-w-0">
+                      <p className="text-cyan-400 font-medium">
+                        {unit.operation_name} · Unit {unit.unit_index}
+                      </p>
+                      <p className="text-cyan-300 text-xs">
+                        {unit.failure_count} failures · dead-lettered {new Date(unit.dead_lettered_at).toLocaleString()}
+                      </p>
+                      {unit.errors.map((error: any) => (
+                        <p key={error.message} className="text-red-400 text-xs font-mono break-all">
+                          {error.occurrences}× on {error.devices} device{error.devices === 1 ? "" : "s"}: {error.message}
+                        </p>
+                      ))}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-cyan-400 text-cyan-400 shrink-0"
+                      onClick={() => requeueUnit(unit.work_unit_id)}
+                    >
+                      Requeue
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Admin Navigation Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
           {/* User Management */}
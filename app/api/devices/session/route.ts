@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hashDeviceToken, signDeviceAccessToken } from '@/lib/device-tokens'
+
+// Exchange a headless device token for a short-lived access token
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const token = typeof body?.token === 'string' ? body.token : ''
+    if (!token.startsWith('dsc_')) {
+      return NextResponse.json({ error: 'Invalid device token' }, { status: 401 })
+    }
+
+    const jwtSecret = process.env.SUPABASE_JWT_SECRET
+    if (!jwtSecret) {
+      console.error('Device session error: SUPABASE_JWT_SECRET is not set')
+      return NextResponse.json({ error: 'Device tokens are not configured' }, { status: 503 })
+    }
+
+    // Token rows are only readable by their owner, so look them up with the service role
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+
+    const { data: deviceToken, error } = await supabase
+      .from('device_tokens')
+      .select('id, user_id, device_id, revoked_at, users!inner(is_active)')
+      .eq('token_hash', hashDeviceToken(token))
+      .maybeSingle()
+
+    if (error) {
+      console.error('Device session lookup error:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+
+    const owner = deviceToken?.users as { is_active: boolean } | { is_active: boolean }[] | undefined
+    const ownerActive = Array.isArray(owner) ? owner[0]?.is_active : owner?.is_active
+    if (!deviceToken || deviceToken.revoked_at || ownerActive === false) {
+      return NextResponse.json({ error: 'Invalid device token' }, { status: 401 })
+    }
+
+    await supabase.from('device_tokens').update({ last_used_at: new Date().toISOString() }).eq('id', deviceToken.id)
+
+    return NextResponse.json(signDeviceAccessToken(deviceToken.user_id, deviceToken.device_id, jwtSecret))
+  } catch (error) {
+    console.error('Device session error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -25,9 +25,13 @@ import {
   Eye,
   Share2,
   TrendingUp,
+  Target,
 } from "lucide-react"
-import { HardwareMonitor, type ResourceLimits, type RealTimeStats } from "@/lib/hardware-detection"
+import { DEFAULT_RESOURCE_LIMITS, HardwareMonitor, type ResourceLimits, type RealTimeStats } from "@/lib/hardware-detection"
 import { BackgroundWorker } from "@/lib/background-worker"
+import type { TaskSlot } from "@/lib/task-coordinator"
+import { deviceCapabilities, describeRequirements, unmetRequirements } from "@/lib/device-capabilities"
+import type { TaskProgressEvent } from "@/lib/task-progress"
 import { detectCompromise, logCompromiseEvent, logSecurityEvent } from "@/lib/security"
 import { taskAnalytics } from "@/lib/task-analytics"
 import HistoricalMetrics from "@/components/historical-metrics"
@@ -43,6 +47,8 @@ export default function Dashboard() {
   const [operations, setOperations] = useState<any[]>([])
   const [myMissions, setMyMissions] = useState<any[]>([])
   const [taskSummary, setTaskSummary] = useState<any>(null)
+  const [taskProgress, setTaskProgress] = useState<Record<string, TaskProgressEvent>>({})
+  const [taskSlots, setTaskSlots] = useState<TaskSlot[]>([])
   const [isContributing, setIsContributing] = useState(false)
   const [cpuPercent, setCpuPercent] = useState([25])
   const [memoryMB, setMemoryMB] = useState([512])
@@ -55,7 +61,12 @@ export default function Dashboard() {
     batteryLevel: 100,
     isCharging: true,
   })
-  const [deviceInfo, setDeviceInfo] = useState<{ cpu_cores: number; total_memory_gb: number } | null>(null)
+  const [deviceInfo, setDeviceInfo] = useState<{
+    cpu_cores: number
+    total_memory_gb: number
+    performance_score: number
+    is_charging?: boolean
+  } | null>(null)
 
   const [consentGranted, setConsentGranted] = useState<boolean>(false)
 
@@ -71,6 +82,8 @@ export default function Dashboard() {
 
   const monitorRef = useRef<HardwareMonitor | null>(null)
   const workerRef = useRef<BackgroundWorker | null>(null)
+  const progressUnsubscribeRef = useRef<(() => void) | null>(null)
+  const queueUnsubscribeRef = useRef<(() => void) | null>(null)
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -141,10 +154,15 @@ export default function Dashboard() {
       monitor.detectEnhancedHardware().then((info) => {
         // Get actual device memory from browser if available
         const actualMemory = (navigator as any).deviceMemory || info.total_memory_gb
-        setDeviceInfo({ cpu_cores: info.cpu_cores, total_memory_gb: actualMemory })
+        setDeviceInfo({
+          cpu_cores: info.cpu_cores,
+          total_memory_gb: actualMemory,
+          performance_score: info.performance_score,
+          is_charging: info.is_charging,
+        })
       }).catch((error) => {
         console.error("Failed to detect hardware:", error)
-        setDeviceInfo({ cpu_cores: 0, total_memory_gb: 0 })
+        setDeviceInfo({ cpu_cores: 0, total_memory_gb: 0, performance_score: 0 })
       })
     } catch (error) {
       console.error("Failed to initialize hardware monitor:", error)
@@ -400,17 +418,44 @@ export default function Dashboard() {
     // Start/stop background worker based on consent and toggle
     if (newState && consentGranted && user) {
       if (!workerRef.current) {
-        workerRef.current = new BackgroundWorker(user.id)
+        workerRef.current = new BackgroundWorker(user.id, {
+          limits: { ...DEFAULT_RESOURCE_LIMITS, ...contributionLimits() },
+        })
+        progressUnsubscribeRef.current = workerRef.current.onTaskProgress(handleTaskProgress)
+        queueUnsubscribeRef.current = workerRef.current.onQueueChange((queue) => setTaskSlots(queue.slots))
       }
       await workerRef.current.start()
     } else {
       if (workerRef.current) {
         await workerRef.current.stop()
-        workerRef.current = null
+        releaseWorker()
       }
     }
   }
 
+  // Finished tasks drop out of the monitor; running ones are replaced by their latest event
+  const handleTaskProgress = (event: TaskProgressEvent) => {
+    setTaskProgress((current) => {
+      const next = { ...current }
+      if (event.phase === "completed" || event.phase === "failed" || event.phase === "cancelled") {
+        delete next[event.task_id]
+      } else {
+        next[event.task_id] = event
+      }
+      return next
+    })
+  }
+
+  const releaseWorker = () => {
+    progressUnsubscribeRef.current?.()
+    progressUnsubscribeRef.current = null
+    queueUnsubscribeRef.current?.()
+    queueUnsubscribeRef.current = null
+    workerRef.current = null
+    setTaskProgress({})
+    setTaskSlots([])
+  }
+
   const toggleConsent = async () => {
     if (!user) return
     const supabase = createClient()
@@ -429,7 +474,7 @@ export default function Dashboard() {
     // If consent revoked, stop worker
     if (!newGranted && workerRef.current) {
       await workerRef.current.stop()
-      workerRef.current = null
+      releaseWorker()
       setIsContributing(false)
       if (sessionRecord) {
         await supabase.from("user_sessions").update({ is_contributing: false }).eq("id", sessionRecord.id)
@@ -437,28 +482,36 @@ export default function Dashboard() {
     }
   }
 
+  const contributionLimits = (): Partial<ResourceLimits> => ({
+    max_cpu_percent: cpuPercent[0],
+    max_memory_mb: memoryMB[0],
+    only_when_charging: onlyWhenCharging,
+    only_when_idle: onlyWhenIdle,
+  })
+
+  // Same capabilities the worker reports when claiming, from the limits currently set in Settings
+  const capabilities = deviceInfo
+    ? deviceCapabilities(
+        deviceInfo,
+        { max_cpu_percent: cpuPercent[0], max_memory_mb: memoryMB[0] },
+        { is_charging: realTimeStats.isCharging },
+      )
+    : null
+
   const updateSettings = async () => {
     if (sessionRecord) {
       const supabase = createClient()
       await supabase
         .from("user_sessions")
-        .update({
-          max_cpu_percent: cpuPercent[0],
-          max_memory_mb: memoryMB[0],
-          only_when_charging: onlyWhenCharging,
-          only_when_idle: onlyWhenIdle,
-        })
+        .update(contributionLimits())
         .eq("id", sessionRecord.id)
     }
     // Also update monitor limits locally
     if (monitorRef.current) {
-      monitorRef.current.updateLimits({
-        max_cpu_percent: cpuPercent[0],
-        max_memory_mb: memoryMB[0],
-        only_when_charging: onlyWhenCharging,
-        only_when_idle: onlyWhenIdle,
-      })
+      monitorRef.current.updateLimits(contributionLimits())
     }
+    // Running tasks throttle to the new CPU limit without restarting
+    workerRef.current?.updateResourceLimits(contributionLimits())
   }
 
 
@@ -602,7 +655,7 @@ export default function Dashboard() {
           <TabsContent value="monitor">
             <div className="space-y-6">
               {/* Real-Time Hardware Monitor */}
-              <RealTimeMonitor userId={user?.id} />
+              <RealTimeMonitor userId={user?.id} taskProgress={Object.values(taskProgress)} taskSlots={taskSlots} />
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Contribution Control */}
@@ -704,6 +757,44 @@ export default function Dashboard() {
                   </CardContent>
                 </Card>
               </div>
+
+              {/* Operations this device qualifies for */}
+              <Card className="dedsec-border bg-slate-950/80">
+                <CardHeader>
+                  <CardTitle className="text-blue-400 flex items-center gap-2">
+                    <Target className="w-5 h-5" />
+                    Operations on this Device
+                  </CardTitle>
+                  <CardDescription className="text-cyan-300">
+                    Work is only assigned from operations your hardware and resource limits meet
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {operations.length === 0 && <p className="text-sm text-cyan-300">No active operations</p>}
+                  {operations.map((op) => {
+                    const reasons = capabilities ? unmetRequirements(op, capabilities) : []
+                    const requirements = describeRequirements(op)
+                    return (
+                      <div key={op.id} className="flex items-start justify-between gap-4 p-3 border border-blue-400/30 rounded">
+                        <div>
+                          <h4 className="font-bold text-blue-400">{op.name}</h4>
+                          {requirements.length > 0 && (
+                            <p className="text-xs text-cyan-300">Needs: {requirements.join(" · ")}</p>
+                          )}
+                          {reasons.map((reason) => (
+                            <p key={reason} className="text-xs text-orange-400">
+                              {reason}
+                            </p>
+                          ))}
+                        </div>
+                        <Badge variant={reasons.length === 0 ? "default" : "secondary"}>
+                          {reasons.length === 0 ? "Available" : "Unavailable"}
+                        </Badge>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
 
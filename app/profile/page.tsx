@@ -17,6 +17,7 @@ import {
   getAvatarFallback
 } from "@/lib/profile-utils"
 import { sanitizeUsername } from "@/lib/security-utils"
+import { DeviceTokensCard } from "@/components/profile-components"
 import { uploadFileWithTUS, generateFileName } from "@/lib/tus-upload"
 
 
@@ -456,6 +457,9 @@ export default function ProfilePage() {
             <TabsTrigger value="2fa" className="data-[state=active]:bg-cyan-600 data-[state=active]:text-white">
               Two-Factor Auth
             </TabsTrigger>
+            <TabsTrigger value="devices" className="data-[state=active]:bg-cyan-600 data-[state=active]:text-white">
+              Devices
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile">
@@ -776,6 +780,10 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="devices">
+            <DeviceTokensCard />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,95 @@
+// Headless contributor: npm run contributor (configuration from the environment, see README)
+import os from "os"
+import path from "path"
+import { HeadlessContributor, DeviceTokenError } from "../lib/headless-contributor"
+import type { ResourceLimits } from "../lib/hardware-detection"
+
+// Give running tasks this long to checkpoint before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 30 * 1000
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    console.error(`[v0] ${name} must be set`)
+    process.exit(1)
+  }
+  return value
+}
+
+function numberEnv(name: string): number | undefined {
+  const raw = process.env[name]
+  if (raw === undefined || raw === "") return undefined
+  const value = Number(raw)
+  if (!Number.isFinite(value)) {
+    console.error(`[v0] ${name} must be a number, got "${raw}"`)
+    process.exit(1)
+  }
+  return value
+}
+
+function booleanEnv(name: string): boolean | undefined {
+  const raw = process.env[name]
+  if (raw === undefined || raw === "") return undefined
+  return raw === "1" || raw.toLowerCase() === "true"
+}
+
+function limitsFromEnv(): Partial<ResourceLimits> {
+  const limits: Partial<ResourceLimits> = {
+    max_cpu_percent: numberEnv("DEDSEC_MAX_CPU_PERCENT"),
+    max_memory_mb: numberEnv("DEDSEC_MAX_MEMORY_MB"),
+    only_when_charging: booleanEnv("DEDSEC_ONLY_WHEN_CHARGING"),
+    only_when_idle: booleanEnv("DEDSEC_ONLY_WHEN_IDLE"),
+    temperature_threshold: numberEnv("DEDSEC_TEMPERATURE_THRESHOLD"),
+  }
+  return Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined))
+}
+
+async function main() {
+  const contributor = new HeadlessContributor({
+    appUrl: requireEnv("DEDSEC_APP_URL"),
+    supabaseUrl: requireEnv("NEXT_PUBLIC_SUPABASE_URL"),
+    supabaseAnonKey: requireEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY"),
+    deviceToken: requireEnv("DEDSEC_DEVICE_TOKEN"),
+    checkpointDir: process.env.DEDSEC_CHECKPOINT_DIR || path.join(os.homedir(), ".dedsec", "checkpoints"),
+    limits: limitsFromEnv(),
+  })
+
+  let shuttingDown = false
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) return
+    shuttingDown = true
+    console.log(`[v0] Received ${signal}, checkpointing and shutting down`)
+
+    const timeout = setTimeout(() => {
+      console.error("[v0] Shutdown timed out")
+      process.exit(1)
+    }, SHUTDOWN_TIMEOUT_MS)
+
+    try {
+      await contributor.stop()
+      clearTimeout(timeout)
+      process.exit(0)
+    } catch (error) {
+      console.error("[v0] Error during shutdown:", error)
+      process.exit(1)
+    }
+  }
+
+  process.on("SIGTERM", shutdown)
+  process.on("SIGINT", shutdown)
+
+  try {
+    await contributor.start()
+  } catch (error) {
+    if (error instanceof DeviceTokenError) {
+      console.error(`[v0] Device token rejected: ${error.message}`)
+      process.exit(error.status === 401 ? 2 : 1)
+    }
+    throw error
+  }
+}
+
+main().catch((error) => {
+  console.error("[v0] Headless contributor failed:", error)
+  process.exit(1)
+})
@@ -7,6 +7,8 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Dialog,
   DialogContent,
@@ -17,6 +19,19 @@ import {
 } from "@/components/ui/dialog"
 import { Plus, Save, X } from "lucide-react"
 import { createBrowserClient } from "@supabase/ssr"
+import {
+  JOB_REDUCERS,
+  JOB_SPLITTERS,
+  defaultJobFor,
+  getTaskType,
+  listTaskTypes,
+  previewJobUnits,
+  validateTaskParameters,
+  type JobReducer,
+  type JobSplitter,
+} from "@/lib/task-registry"
+import "@/lib/task-types"
+import { WASM_KERNEL_TASK_TYPE, hashKernelModule } from "@/lib/wasm-sandbox"
 
 interface Operation {
   id: string
@@ -25,7 +40,18 @@ interface Operation {
   required_compute_power: number
   task_signature: string
   task_hash: string
+  task_type: string | null
+  splitter: JobSplitter | null
+  reducer: JobReducer | null
   unlock_threshold: number
+  priority: number
+  share_weight: number
+  min_cpu_cores: number
+  min_memory_mb: number
+  min_performance_score: number
+  requires_charging: boolean
+  max_retries: number
+  retry_backoff_seconds: number
   parameters: any
   is_active: boolean
   created_at: string
@@ -36,19 +62,63 @@ interface CreateOperationProps {
   adminId: string
 }
 
+const DEFAULT_TASK_TYPE = "prime_search"
+
+const defaultParametersFor = (taskType: string) => JSON.stringify(getTaskType(taskType).defaultParameters, null, 2)
+
+const SPLITTER_LABELS: Record<JobSplitter, string> = {
+  single: "Single unit",
+  range: "Range slices (unit_size)",
+  seeded: "Seeded copies (units)",
+  list: "One unit per unit_parameters entry",
+}
+
+const REDUCER_LABELS: Record<JobReducer, string> = {
+  collect: "Collect results",
+  prime_search: "Prime count",
+  monte_carlo: "Monte Carlo statistics",
+}
+
 export function CreateOperationDialog({ onOperationCreated, adminId }: CreateOperationProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     required_compute_power: 100,
     unlock_threshold: 50,
-    parameters: "{}",
+    replication_factor: 3,
+    quorum_size: 2,
+    priority: 0,
+    share_weight: 1,
+    min_cpu_cores: 0,
+    min_memory_mb: 0,
+    min_performance_score: 0,
+    requires_charging: false,
+    max_retries: 3,
+    retry_backoff_seconds: 30,
+    task_type: DEFAULT_TASK_TYPE,
+    ...defaultJobFor(DEFAULT_TASK_TYPE),
+    parameters: defaultParametersFor(DEFAULT_TASK_TYPE),
   })
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    setError("")
+
+    // Check every unit the splitter will create against the task type's schema before it reaches the network
+    let parameters: any
+    try {
+      parameters = JSON.parse(formData.parameters)
+      for (const unitParameters of previewJobUnits(formData.splitter, parameters)) {
+        validateTaskParameters(formData.task_type, unitParameters)
+      }
+    } catch (err) {
+      setError(err instanceof SyntaxError ? "Parameters must be valid JSON" : err instanceof Error ? err.message : "Invalid parameters")
+      return
+    }
+
     setIsLoading(true)
 
     try {
@@ -62,7 +132,11 @@ export function CreateOperationDialog({ onOperationCreated, adminId }: CreateOpe
       const randomHex = Array.from(randomBytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
 
       const taskSignature = `sig_${randomHex}_${timestamp}`
-      const taskHash = await generateSecureHash(`${formData.name}_${timestamp}_${randomHex}`)
+      // Kernel operations are pinned to the exact module bytes workers must verify
+      const taskHash =
+        formData.task_type === WASM_KERNEL_TASK_TYPE
+          ? await hashKernelModule(parameters.module_path)
+          : await generateSecureHash(`${formData.name}_${timestamp}_${randomHex}`)
 
       const { error } = await supabase.from("operations").insert({
         name: formData.name,
@@ -70,8 +144,21 @@ export function CreateOperationDialog({ onOperationCreated, adminId }: CreateOpe
         required_compute_power: formData.required_compute_power,
         task_signature: taskSignature,
         task_hash: taskHash,
+        task_type: formData.task_type,
+        splitter: formData.splitter,
+        reducer: formData.reducer,
         unlock_threshold: formData.unlock_threshold,
-        parameters: JSON.parse(formData.parameters),
+        replication_factor: formData.replication_factor,
+        quorum_size: formData.quorum_size,
+        priority: formData.priority,
+        share_weight: formData.share_weight,
+        min_cpu_cores: formData.min_cpu_cores,
+        min_memory_mb: formData.min_memory_mb,
+        min_performance_score: formData.min_performance_score,
+        requires_charging: formData.requires_charging,
+        max_retries: formData.max_retries,
+        retry_backoff_seconds: formData.retry_backoff_seconds,
+        parameters: parameters,
         created_by: adminId,
       })
 
@@ -90,12 +177,27 @@ export function CreateOperationDialog({ onOperationCreated, adminId }: CreateOpe
           description: "",
           required_compute_power: 100,
           unlock_threshold: 50,
-          parameters: "{}",
+          replication_factor: 3,
+          quorum_size: 2,
+          priority: 0,
+          share_weight: 1,
+          min_cpu_cores: 0,
+          min_memory_mb: 0,
+          min_performance_score: 0,
+          requires_charging: false,
+          max_retries: 3,
+          retry_backoff_seconds: 30,
+          task_type: DEFAULT_TASK_TYPE,
+          ...defaultJobFor(DEFAULT_TASK_TYPE),
+          parameters: defaultParametersFor(DEFAULT_TASK_TYPE),
         })
         onOperationCreated()
+      } else {
+        setError(error.message)
       }
     } catch (err) {
       console.error("Failed to create operation:", err)
+      setError(err instanceof Error ? err.message : "Failed to create operation")
     }
 
     setIsLoading(false)
@@ -181,6 +283,231 @@ export function CreateOperationDialog({ onOperationCreated, adminId }: CreateOpe
               />
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="replication_factor" className="text-cyan-400">
+                Replicas per Unit
+              </Label>
+              <Input
+                id="replication_factor"
+                type="number"
+                value={formData.replication_factor}
+                onChange={(e) => setFormData({ ...formData, replication_factor: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="1"
+                max="10"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="quorum_size" className="text-cyan-400">
+                Verification Quorum
+              </Label>
+              <Input
+                id="quorum_size"
+                type="number"
+                value={formData.quorum_size}
+                onChange={(e) => setFormData({ ...formData, quorum_size: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="1"
+                max={formData.replication_factor}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="priority" className="text-cyan-400">
+                Priority (0-10)
+              </Label>
+              <Input
+                id="priority"
+                type="number"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0"
+                max="10"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="share_weight" className="text-cyan-400">
+                Fair-Share Weight
+              </Label>
+              <Input
+                id="share_weight"
+                type="number"
+                value={formData.share_weight}
+                onChange={(e) => setFormData({ ...formData, share_weight: Number.parseFloat(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0.1"
+                max="100"
+                step="0.1"
+                required
+              />
+              <p className="text-xs text-cyan-300 mt-1">Higher priorities are served first; equal priorities split throughput by weight</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="min_cpu_cores" className="text-cyan-400">
+                Min CPU Cores
+              </Label>
+              <Input
+                id="min_cpu_cores"
+                type="number"
+                value={formData.min_cpu_cores}
+                onChange={(e) => setFormData({ ...formData, min_cpu_cores: Number.parseFloat(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0"
+                step="0.5"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="min_memory_mb" className="text-cyan-400">
+                Min Memory (MB)
+              </Label>
+              <Input
+                id="min_memory_mb"
+                type="number"
+                value={formData.min_memory_mb}
+                onChange={(e) => setFormData({ ...formData, min_memory_mb: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="min_performance_score" className="text-cyan-400">
+                Min Performance Score
+              </Label>
+              <Input
+                id="min_performance_score"
+                type="number"
+                value={formData.min_performance_score}
+                onChange={(e) => setFormData({ ...formData, min_performance_score: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0"
+                max="100"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="requires_charging" className="text-cyan-400">
+                Requires Charging
+              </Label>
+              <p className="text-xs text-cyan-300 mt-1">
+                Units are only offered to devices whose CPU limit, memory limit and hardware meet these minimums
+              </p>
+            </div>
+            <Switch
+              id="requires_charging"
+              checked={formData.requires_charging}
+              onCheckedChange={(checked) => setFormData({ ...formData, requires_charging: checked })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="max_retries" className="text-cyan-400">
+                Max Retries
+              </Label>
+              <Input
+                id="max_retries"
+                type="number"
+                value={formData.max_retries}
+                onChange={(e) => setFormData({ ...formData, max_retries: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0"
+                max="20"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="retry_backoff_seconds" className="text-cyan-400">
+                Retry Backoff (seconds)
+              </Label>
+              <Input
+                id="retry_backoff_seconds"
+                type="number"
+                value={formData.retry_backoff_seconds}
+                onChange={(e) => setFormData({ ...formData, retry_backoff_seconds: Number.parseInt(e.target.value) })}
+                className="bg-slate-950 border-cyan-400 text-cyan-400"
+                min="0"
+                max="3600"
+                required
+              />
+              <p className="text-xs text-cyan-300 mt-1">Doubles after each failure; units out of retries go to the dead-letter queue</p>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="task_type" className="text-cyan-400">
+              Task Type
+            </Label>
+            <Select
+              value={formData.task_type}
+              onValueChange={(value) =>
+                setFormData({ ...formData, task_type: value, ...defaultJobFor(value), parameters: defaultParametersFor(value) })
+              }
+            >
+              <SelectTrigger id="task_type" className="bg-slate-950 border-cyan-400 text-cyan-400">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-cyan-400">
+                {listTaskTypes().map((definition) => (
+                  <SelectItem key={definition.type} value={definition.type}>
+                    {definition.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-cyan-300 mt-1">{getTaskType(formData.task_type).description}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="splitter" className="text-cyan-400">
+                Splitter
+              </Label>
+              <Select
+                value={formData.splitter}
+                onValueChange={(value) => setFormData({ ...formData, splitter: value as JobSplitter })}
+              >
+                <SelectTrigger id="splitter" className="bg-slate-950 border-cyan-400 text-cyan-400">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-cyan-400">
+                  {JOB_SPLITTERS.map((splitter) => (
+                    <SelectItem key={splitter} value={splitter}>
+                      {SPLITTER_LABELS[splitter]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="reducer" className="text-cyan-400">
+                Reducer
+              </Label>
+              <Select
+                value={formData.reducer}
+                onValueChange={(value) => setFormData({ ...formData, reducer: value as JobReducer })}
+              >
+                <SelectTrigger id="reducer" className="bg-slate-950 border-cyan-400 text-cyan-400">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-cyan-400">
+                  {JOB_REDUCERS.map((reducer) => (
+                    <SelectItem key={reducer} value={reducer}>
+                      {REDUCER_LABELS[reducer]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
           <div>
             <Label htmlFor="parameters" className="text-cyan-400">
               Parameters (JSON)
@@ -191,9 +518,11 @@ export function CreateOperationDialog({ onOperationCreated, adminId }: CreateOpe
               onChange={(e) => setFormData({ ...formData, parameters: e.target.value })}
               className="bg-slate-950 border-cyan-400 text-cyan-400"
               placeholder='{"algorithm": "example", "iterations": 1000}'
+              rows={6}
               required
             />
           </div>
+          {error && <div className="text-red-400 text-sm p-2 border border-red-400 rounded">{error}</div>}
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
               <X className="w-4 h-4 mr-2" />
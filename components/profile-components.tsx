@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -15,7 +15,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
-import { User, Camera, Shield, Key, Save } from "lucide-react"
+import { User, Camera, Shield, Key, Save, Server, Copy, Trash2 } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 import { 
   validateProfilePictureFile, 
@@ -239,3 +239,131 @@ export function SecurityStatusCard({ user }: SecurityStatusProps) {
     </Card>
   )
 }
+
+interface DeviceToken {
+  id: string
+  device_id: string
+  name: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+// Tokens for headless contributors (npm run contributor); the plaintext is shown once on creation
+export function DeviceTokensCard() {
+  const [tokens, setTokens] = useState<DeviceToken[]>([])
+  const [name, setName] = useState("")
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const supabase = createClient()
+
+  const loadTokens = async () => {
+    const { data, error } = await supabase
+      .from("device_tokens")
+      .select("id, device_id, name, created_at, last_used_at, revoked_at")
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      setError(error.message)
+      return
+    }
+    setTokens(data || [])
+  }
+
+  useEffect(() => {
+    loadTokens()
+  }, [])
+
+  const handleCreate = async () => {
+    if (!name.trim()) return
+    setIsLoading(true)
+    setError("")
+
+    const { data, error } = await supabase.rpc("create_device_token", { p_name: name.trim() })
+    if (error) {
+      setError(error.message)
+    } else {
+      setNewToken(data?.[0]?.token ?? null)
+      setName("")
+      await loadTokens()
+    }
+    setIsLoading(false)
+  }
+
+  const handleRevoke = async (tokenId: string) => {
+    const { error } = await supabase.rpc("revoke_device_token", { p_token_id: tokenId })
+    if (error) {
+      setError(error.message)
+      return
+    }
+    await loadTokens()
+  }
+
+  return (
+    <Card className="border border-cyan-400 bg-slate-950/80">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-cyan-400 text-lg flex items-center gap-2">
+          <Server className="w-5 h-5" />
+          Server Devices
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-cyan-300">
+          Device tokens let a headless server contribute as you. Run <code>npm run contributor</code> with{" "}
+          <code>DEDSEC_DEVICE_TOKEN</code> set to the token.
+        </p>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. build-server-01"
+            maxLength={64}
+            className="bg-slate-950 border-cyan-400 text-cyan-400"
+          />
+          <Button onClick={handleCreate} disabled={isLoading || !name.trim()} className="bg-cyan-600 hover:bg-cyan-500">
+            <Key className="w-4 h-4 mr-2" />
+            Create
+          </Button>
+        </div>
+
+        {newToken && (
+          <div className="p-3 border border-amber-400 rounded space-y-2">
+            <p className="text-amber-400 text-sm">Copy this token now; it will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all text-xs text-cyan-400">{newToken}</code>
+              <Button size="sm" variant="ghost" onClick={() => navigator.clipboard.writeText(newToken)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <div className="text-red-400 text-sm p-2 border border-red-400 rounded">{error}</div>}
+
+        <div className="space-y-2">
+          {tokens.map((token) => (
+            <div key={token.id} className="flex items-center justify-between p-2 bg-slate-900/50 rounded text-sm">
+              <div>
+                <p className="text-cyan-400">{token.name}</p>
+                <p className="text-cyan-300 text-xs font-mono">{token.device_id}</p>
+                <p className="text-cyan-300 text-xs">
+                  Last used: {token.last_used_at ? new Date(token.last_used_at).toLocaleString() : "Never"}
+                </p>
+              </div>
+              {token.revoked_at ? (
+                <Badge className="bg-red-600">Revoked</Badge>
+              ) : (
+                <Button size="sm" variant="ghost" onClick={() => handleRevoke(token.id)} className="text-red-400">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
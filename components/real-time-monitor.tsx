@@ -15,12 +15,18 @@ import {
   Smartphone
 } from "lucide-react"
 import { HardwareMonitor, type RealTimeStats, type DeviceInfo } from "@/lib/hardware-detection"
+import type { TaskProgressEvent } from "@/lib/task-progress"
+import type { TaskSlot } from "@/lib/task-coordinator"
 
 interface RealTimeMonitorProps {
   userId?: string
+  // Latest progress event of each running task
+  taskProgress?: TaskProgressEvent[]
+  // Every task slot of the contributing device, busy or free
+  taskSlots?: TaskSlot[]
 }
 
-export default function RealTimeMonitor({ userId }: RealTimeMonitorProps) {
+export default function RealTimeMonitor({ userId, taskProgress = [], taskSlots = [] }: RealTimeMonitorProps) {
   const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null)
   const [realTimeStats, setRealTimeStats] = useState<RealTimeStats | null>(null)
   const [isMonitoring, setIsMonitoring] = useState(false)
@@ -78,6 +84,22 @@ export default function RealTimeMonitor({ userId }: RealTimeMonitorProps) {
     return '🚨'
   }
 
+  const formatDuration = (ms: number | null) => {
+    if (ms === null) return '—'
+    const seconds = Math.round(ms / 1000)
+    if (seconds < 60) return `${seconds}s`
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+  }
+
+  const formatRate = (opsPerSecond: number) => {
+    if (opsPerSecond >= 1e6) return `${(opsPerSecond / 1e6).toFixed(1)}M`
+    if (opsPerSecond >= 1e3) return `${(opsPerSecond / 1e3).toFixed(1)}K`
+    return opsPerSecond.toFixed(0)
+  }
+
+  const progressByTask = new Map(taskProgress.map((event) => [event.task_id, event]))
+
   const getDeviceIcon = (deviceType: string) => {
     switch (deviceType) {
       case 'mobile': return <Smartphone className="w-4 h-4" />
@@ -266,6 +288,55 @@ export default function RealTimeMonitor({ userId }: RealTimeMonitorProps) {
             </div>
           </div>
 
+          {/* Task Slots */}
+          {taskSlots.length > 0 && (
+            <div className="space-y-4 pt-4 border-t border-cyan-400/30">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-cyan-300">Task Slots</span>
+                <span className="font-medium text-cyan-400">
+                  {taskSlots.filter((slot) => slot.task).length}/{taskSlots.length} busy
+                </span>
+              </div>
+              {taskSlots.map((slot) => {
+                const event = slot.task ? progressByTask.get(slot.task.id) : undefined
+                return (
+                  <div key={slot.index} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Activity className={`w-4 h-4 ${slot.task ? 'text-cyan-400' : 'text-slate-600'}`} />
+                        <span className="text-sm font-medium text-cyan-300">
+                          Slot {slot.index + 1}: {slot.task ? slot.task.type : 'idle'}
+                        </span>
+                        {slot.task && (
+                          <Badge variant="outline" className="border-cyan-400 text-cyan-400 capitalize">
+                            {event?.phase ?? 'starting'}
+                          </Badge>
+                        )}
+                      </div>
+                      {event && (
+                        <span className="text-sm font-bold text-cyan-400">
+                          {(event.fraction * 100).toFixed(1)}%
+                        </span>
+                      )}
+                    </div>
+                    {event && (
+                      <>
+                        <Progress 
+                          value={event.fraction * 100} 
+                          className="h-2 bg-slate-800 [&>div]:bg-cyan-400"
+                        />
+                        <div className="flex justify-between text-xs text-cyan-300">
+                          <span>{event.operations.toLocaleString()} ops · {formatRate(event.ops_per_second)} ops/s</span>
+                          <span>ETA {formatDuration(event.eta_ms)}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
           {/* Additional Stats */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t border-cyan-400/30">
             {realTimeStats.battery_level !== undefined && (
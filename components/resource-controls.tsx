@@ -14,9 +14,11 @@ import { detectEnhancedHardware, type DeviceInfo } from "@/lib/hardware-detectio
 interface ResourceControlsProps {
   userId: string
   deviceId: string
+  // Lets the host forward changes to a running BackgroundWorker so tasks throttle immediately
+  onLimitsChange?: (limits: ResourceLimits) => void
 }
 
-export function ResourceControls({ userId, deviceId }: ResourceControlsProps) {
+export function ResourceControls({ userId, deviceId, onLimitsChange }: ResourceControlsProps) {
   const [resourceManager, setResourceManager] = useState<ResourceManager | null>(null)
   const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null)
   const [currentStats, setCurrentStats] = useState<RealTimeStats | null>(null)
@@ -74,6 +76,7 @@ export function ResourceControls({ userId, deviceId }: ResourceControlsProps) {
     const newLimits = { ...resourceLimits, [key]: value }
     setResourceLimits(newLimits)
     resourceManager?.updateResourceLimits(newLimits)
+    onLimitsChange?.(newLimits)
   }
 
   const getStatusColor = (value: number, threshold: number) => {
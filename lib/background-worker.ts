@@ -1,7 +1,9 @@
-import { TaskCoordinator } from "./task-coordinator"
+import { TaskCoordinator, type TaskCoordinatorOptions, type TaskQueue } from "./task-coordinator"
 import { ResourceManager } from "./resource-manager"
+import { DEFAULT_RESOURCE_LIMITS, type ResourceLimits, type ResourceMonitor } from "./hardware-detection"
 import { createClient } from "./supabase/client"
 import { logSecurityEvent } from "./security"
+import type { TaskProgressEvent } from "./task-progress"
 
 export interface WorkerHealthStatus {
   isHealthy: boolean
@@ -12,12 +14,22 @@ export interface WorkerHealthStatus {
   errors: string[]
 }
 
+// Everything defaults to the browser; the headless contributor supplies its own
+export interface BackgroundWorkerOptions {
+  deviceId?: string
+  limits?: ResourceLimits
+  createMonitor?: (limits: ResourceLimits) => ResourceMonitor
+  coordinator?: TaskCoordinatorOptions
+}
+
 export class BackgroundWorker {
   private taskCoordinator: TaskCoordinator
   private resourceManager: ResourceManager | null = null
   private isRunning = false
   private userId: string
   private deviceId: string
+  // Kept across restarts so live limit changes survive them
+  private limits: ResourceLimits
   private supabase = createClient()
   
   // Heartbeat and resilience
@@ -33,10 +45,11 @@ export class BackgroundWorker {
   private heartbeatIntervalMs = 30000 // 30 seconds
   private healthCheckIntervalMs = 60000 // 1 minute
 
-  constructor(userId: string) {
+  constructor(userId: string, private options: BackgroundWorkerOptions = {}) {
     this.userId = userId
-    this.deviceId = this.generateDeviceId()
-    this.taskCoordinator = new TaskCoordinator()
+    this.deviceId = options.deviceId ?? this.generateDeviceId()
+    this.limits = options.limits ?? DEFAULT_RESOURCE_LIMITS
+    this.taskCoordinator = new TaskCoordinator(options.coordinator)
   }
 
   public async start(): Promise<void> {
@@ -45,22 +58,28 @@ export class BackgroundWorker {
     console.log("[v0] Starting background worker")
 
     try {
-      // Initialize resource manager with default limits
-      const defaultLimits = {
-        max_cpu_percent: 25,
-        max_memory_mb: 512,
-        only_when_charging: true,
-        only_when_idle: false,
-        temperature_threshold: 75,
-        max_battery_drain_percent: 10,
-      }
+      // Initialize resource manager with the configured or default limits
+      const limits = this.limits
+      this.resourceManager = new ResourceManager(limits, this.options.createMonitor?.(limits))
+      this.taskCoordinator.setResourceLimits(limits)
+      this.taskCoordinator.setCapabilityProvider(() => this.resourceManager!.getDeviceCapabilities())
+
+      // Safety-limit pauses checkpoint running tasks so they resume on the next start
+      this.resourceManager.onAutoPause(() => this.taskCoordinator.pauseCoordination())
 
-      this.resourceManager = new ResourceManager(defaultLimits)
+      // Load stored benchmarks first so the session update below keeps them
+      const calibration = await this.taskCoordinator.loadCalibration(this.userId, this.deviceId)
+      this.resourceManager.setCalibration(calibration)
 
       // Start resource contribution
       const contributionStarted = await this.resourceManager.startContribution(this.userId, this.deviceId)
 
       if (contributionStarted) {
+        // Benchmark only once contributing is allowed, so the suite respects the same safety limits
+        if (!calibration) {
+          this.resourceManager.setCalibration(await this.taskCoordinator.calibrate())
+        }
+
         // Start task coordination
         await this.taskCoordinator.startCoordination(this.userId, this.deviceId)
         this.isRunning = true
@@ -110,7 +129,8 @@ export class BackgroundWorker {
     }
   }
 
-  public async stop(): Promise<void> {
+  // With checkpoint, running tasks are paused and resume on the next start instead of being cancelled
+  public async stop({ checkpoint = false }: { checkpoint?: boolean } = {}): Promise<void> {
     if (!this.isRunning) return
 
     console.log("[v0] Stopping background worker")
@@ -120,6 +140,10 @@ export class BackgroundWorker {
       this.stopHeartbeat()
       this.stopHealthMonitoring()
 
+      if (checkpoint) {
+        await this.taskCoordinator.pauseCoordination()
+      }
+
       // Stop task coordination
       await this.taskCoordinator.stopCoordination()
 
@@ -163,11 +187,22 @@ export class BackgroundWorker {
     return {
       isRunning: this.isRunning,
       taskQueue: this.taskCoordinator.getQueueStatus(),
+      taskProgress: this.taskCoordinator.getTaskProgress(),
       resourceContribution: this.resourceManager?.isCurrentlyContributing() || false,
       currentSession: this.resourceManager?.getCurrentSession() || null,
     }
   }
 
+  // Structured progress of every running task; returns the unsubscribe function
+  public onTaskProgress(listener: (event: TaskProgressEvent) => void): () => void {
+    return this.taskCoordinator.onTaskProgress(listener)
+  }
+
+  // Slot-by-slot view of the tasks in flight; returns the unsubscribe function
+  public onQueueChange(listener: (queue: TaskQueue) => void): () => void {
+    return this.taskCoordinator.onQueueChange(listener)
+  }
+
   public getHealthStatus(): WorkerHealthStatus {
     return {
       isHealthy: this.consecutiveFailures < 3,
@@ -179,8 +214,12 @@ export class BackgroundWorker {
     }
   }
 
-  public updateResourceLimits(limits: any) {
+  // Running tasks pick up a new CPU limit at their next yield point, and the number of
+  // tasks in flight follows the new CPU and memory budget
+  public updateResourceLimits(limits: Partial<ResourceLimits>) {
+    this.limits = { ...this.limits, ...limits }
     this.resourceManager?.updateResourceLimits(limits)
+    this.taskCoordinator.setResourceLimits(this.limits)
   }
 
   private startHeartbeat(): void {
@@ -377,70 +416,3 @@ export function registerBackgroundService() {
       })
   }
 }
-
-// Web Worker for CPU-intensive tasks
-export function createComputeWorker(): Worker | null {
-  if (typeof Worker !== "undefined") {
-    const workerCode = `
-      // Web Worker for distributed computing
-      self.onmessage = function(e) {
-        const { type, data } = e.data;
-        
-        switch(type) {
-          case 'PRIME_SEARCH':
-            const primes = searchPrimes(data.start, data.end);
-            self.postMessage({ type: 'RESULT', result: primes });
-            break;
-            
-          case 'HASH_COMPUTE':
-            computeHashes(data.inputs).then(hashes => {
-              self.postMessage({ type: 'RESULT', result: hashes });
-            });
-            break;
-            
-          default:
-            self.postMessage({ type: 'ERROR', error: 'Unknown task type' });
-        }
-      };
-      
-      function searchPrimes(start, end) {
-        const primes = [];
-        for (let num = start; num <= end; num++) {
-          if (isPrime(num)) {
-            primes.push(num);
-          }
-        }
-        return primes;
-      }
-      
-      function isPrime(num) {
-        if (num < 2) return false;
-        if (num === 2) return true;
-        if (num % 2 === 0) return false;
-        
-        for (let i = 3; i <= Math.sqrt(num); i += 2) {
-          if (num % i === 0) return false;
-        }
-        return true;
-      }
-      
-      async function computeHashes(inputs) {
-        const hashes = [];
-        for (const input of inputs) {
-          const encoder = new TextEncoder();
-          const data = encoder.encode(input);
-          const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-          const hashArray = Array.from(new Uint8Array(hashBuffer));
-          const hash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-          hashes.push(hash);
-        }
-        return hashes;
-      }
-    `
-
-    const blob = new Blob([workerCode], { type: "application/javascript" })
-    return new Worker(URL.createObjectURL(blob))
-  }
-
-  return null
-}
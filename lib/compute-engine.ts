@@ -1,11 +1,24 @@
 // Real computing operations for distributed tasks
+import { canonicalResultText } from "./result-hash"
+import { createSeededRandom, resolveTaskSeed, type RandomSource } from "./seeded-random"
+import { getTaskType, validateTaskParameters, type TaskCheckpointer, type TaskRunContext, type TaskTypeId } from "./task-registry"
+import { MATRIX_OPERATIONS, monteCarloDrawsPerSample } from "./task-types"
+import { hashHex } from "./hash-algorithms"
+import { TaskProgressTracker, type TaskProgressEvent } from "./task-progress"
+import { DutyCycleThrottle } from "./cpu-throttle"
+
 export interface ComputeTask {
   id: string
   operation_id: string
-  type: "prime_search" | "hash_computation" | "matrix_operations" | "crypto_analysis" | "factorial_computation" | "fibonacci_sequence" | "pi_calculation" | "sha256_mining"
+  work_unit_id?: string
+  // task_executions row the result will be submitted to; salts the proof-of-work challenge
+  execution_id?: string
+  type: TaskTypeId
   parameters: any
   hash: string
   signature: string
+  // Leading zero bits required of the proof-of-work hash (operations.pow_difficulty)
+  pow_difficulty?: number
   priority: number
   estimated_duration: number
   created_at: string
@@ -17,109 +30,197 @@ export interface TaskResult {
   result_data: any
   computation_time: number
   verification_hash: string
-  proof_of_work: string
+  proof_of_work: ProofOfWork
+}
+
+// sha256(`${challenge}:${nonce}`) must start with `difficulty` zero bits; checked by submit_task_result
+export interface ProofOfWork {
+  algorithm: "sha256"
+  challenge: string
+  nonce: number
+  difficulty: number
+  hash: string
 }
 
+export const DEFAULT_POW_DIFFICULTY = 12
+
+// Raised when a run is aborted; carries how much work finished before the abort
+export class TaskCancelledError extends Error {
+  constructor(public operations: number) {
+    super("Task cancelled")
+    this.name = "TaskCancelledError"
+  }
+}
+
+export interface ExecuteOptions {
+  // Aborting stops the run at the handler's next yield point
+  signal?: AbortSignal
+  // State from a previous checkpoint of this same task
+  resumeState?: any
+  // Receives serialisable intermediate state at most once per checkpointIntervalMs
+  onCheckpoint?: (state: any, operations: number) => void
+  checkpointIntervalMs?: number
+  // Minimum spacing between computing-phase progress events; phase changes are never throttled
+  progressIntervalMs?: number
+}
+
+export interface EngineStatus {
+  is_running: boolean
+  task_id: string | null
+  task_type: TaskTypeId | null
+  // Latest event of the current run, or of the last run when idle
+  progress: TaskProgressEvent | null
+}
+
+export type ProgressListener = (event: TaskProgressEvent) => void
+
+interface LUDecomposition {
+  lu: number[][]
+  perm: number[]
+  sign: number
+  singular: boolean
+}
+
+// Key under which each matrix operation stores its result
+const MATRIX_RESULT_KEYS: Record<string, string> = {
+  multiply: "multiplication",
+  transpose: "transpose",
+  determinant: "determinant",
+  inverse: "inverse",
+  solve: "solve",
+  rank: "rank",
+  qr: "qr",
+}
+
+// Relative frequencies of A-Z in English text, used to rank Caesar shift candidates
+const ENGLISH_LETTER_FREQUENCIES = [
+  0.08167, 0.01492, 0.02782, 0.04253, 0.12702, 0.02228, 0.02015, 0.06094, 0.06966,
+  0.00153, 0.00772, 0.04025, 0.02406, 0.06749, 0.07507, 0.01929, 0.00095, 0.05987,
+  0.06327, 0.09056, 0.02758, 0.00978, 0.0236, 0.0015, 0.01974, 0.00074,
+]
+
 export class ComputeEngine {
-  getStatus() {
-    throw new Error("Method not implemented.")
+  private isRunning = false
+  private currentTask: ComputeTask | null = null
+  private abortController: AbortController | null = null
+  private progressTracker: TaskProgressTracker | null = null
+  private lastProgress: TaskProgressEvent | null = null
+  private progressListeners = new Set<ProgressListener>()
+  private completeListeners = new Set<(result: TaskResult) => void | Promise<void>>()
+  private errorListeners = new Set<(error: Error) => void | Promise<void>>()
+  // Paces every yield point so this engine keeps to its share of the CPU budget
+  private throttle = new DutyCycleThrottle()
+
+  // Executors for the built-in task types declared in task-types.ts
+  private kernels: Record<TaskTypeId, (context: TaskRunContext) => Promise<any>> = {
+    prime_search: (ctx) => this.searchPrimes(ctx.parameters, ctx.checkpoint, ctx.reportProgress),
+    hash_computation: (ctx) => this.computeHashes(ctx.parameters, ctx.seed, ctx.random, ctx.checkpoint, ctx.reportProgress),
+    matrix_operations: (ctx) => this.performMatrixOperations(ctx.parameters, ctx.seed, ctx.random, ctx.checkpoint, ctx.reportProgress),
+    crypto_analysis: (ctx) => this.performCryptoAnalysis(ctx.parameters, ctx.checkpoint, ctx.reportProgress),
+    factorial_computation: (ctx) => this.computeFactorial(ctx.parameters.max_number, ctx.reportProgress),
+    fibonacci_sequence: (ctx) => this.computeFibonacci(ctx.parameters.sequence_length, ctx.reportProgress),
+    pi_calculation: (ctx) => this.calculatePi(ctx.parameters, ctx.checkpoint, ctx.reportProgress),
+    monte_carlo: (ctx) => this.runMonteCarlo(ctx.parameters, ctx.seed, ctx.random, ctx.checkpoint, ctx.reportProgress),
+    sha256_mining: (ctx) => this.mineSHA256(ctx.parameters.target_pattern, ctx.parameters.hash_function, ctx.seed, ctx.random, ctx.checkpoint, ctx.reportProgress),
   }
-  onError(arg0: (error: Error) => Promise<void>) {
-    throw new Error("Method not implemented.")
+
+  public getStatus(): EngineStatus {
+    return {
+      is_running: this.isRunning,
+      task_id: this.currentTask?.id ?? null,
+      task_type: this.currentTask?.type ?? null,
+      progress: this.progressTracker?.snapshot() ?? this.lastProgress,
+    }
+  }
+
+  // Each subscription returns its unsubscribe function
+  public onProgress(listener: ProgressListener): () => void {
+    this.progressListeners.add(listener)
+    return () => this.progressListeners.delete(listener)
   }
-  onComplete(arg0: (result: TaskResult) => Promise<void>) {
-    throw new Error("Method not implemented.")
+
+  public onComplete(listener: (result: TaskResult) => void | Promise<void>): () => void {
+    this.completeListeners.add(listener)
+    return () => this.completeListeners.delete(listener)
   }
-  onProgress(arg0: (progress: any) => Promise<void>) {
-    throw new Error("Method not implemented.")
+
+  // Cancelled runs are reported as a "cancelled" progress event, not as errors
+  public onError(listener: (error: Error) => void | Promise<void>): () => void {
+    this.errorListeners.add(listener)
+    return () => this.errorListeners.delete(listener)
   }
-  private isRunning = false
-  private currentTask: ComputeTask | null = null
-  private progressCallback?: (progress: number, operations: number) => void
 
-  public async executeTask(task: ComputeTask, onProgress?: (progress: number, operations: number) => void): Promise<TaskResult> {
+  public async executeTask(
+    task: ComputeTask,
+    onProgress?: ProgressListener,
+    options: ExecuteOptions = {},
+  ): Promise<TaskResult> {
     this.currentTask = task
     this.isRunning = true
-    this.progressCallback = onProgress
+
+    const progress = new TaskProgressTracker(
+      task,
+      (event) => {
+        this.lastProgress = event
+        onProgress?.(event)
+        this.progressListeners.forEach((listener) => listener(event))
+      },
+      options.progressIntervalMs,
+      options.resumeState != null,
+    )
+    this.progressTracker = progress
 
     const startTime = Date.now()
     let result: any
     let operations = 0
+    this.throttle.reset()
+
+    // Every task draws its inputs from a PRNG seeded by the task itself so reruns are byte-identical
+    const seed = resolveTaskSeed(task)
+    const random = createSeededRandom(seed)
+    const checkpoint = this.createCheckpointer(options)
+
+    // stop() and the caller's signal both abort this run
+    const controller = new AbortController()
+    const abortFromCaller = () => controller.abort()
+    this.abortController = controller
+    if (options.signal?.aborted) controller.abort()
+    options.signal?.addEventListener("abort", abortFromCaller)
 
     try {
-      switch (task.type) {
-        case "prime_search":
-          result = await this.searchPrimes(task.parameters, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / (task.parameters.target_primes * 100), 1), ops)
-            }
-          })
-          break
-
-        case "hash_computation":
-          result = await this.computeHashes(task.parameters, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / task.parameters.iterations, 1), ops)
-            }
-          })
-          break
-
-        case "matrix_operations":
-          result = await this.performMatrixOperations(task.parameters, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / (task.parameters.matrix_size * 100), 1), ops)
-            }
-          })
-          break
-
-        case "factorial_computation":
-          result = await this.computeFactorial(task.parameters.max_number, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / (task.parameters.max_number * 10), 1), ops)
-            }
-          })
-          break
-
-        case "fibonacci_sequence":
-          result = await this.computeFibonacci(task.parameters.sequence_length, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / task.parameters.sequence_length, 1), ops)
-            }
-          })
-          break
-
-        case "pi_calculation":
-          result = await this.calculatePi(task.parameters.digits, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / (task.parameters.digits * 1000), 1), ops)
-            }
-          })
-          break
-
-        case "sha256_mining":
-          result = await this.mineSHA256(task.parameters.target_pattern, (ops) => {
-            operations = ops
-            if (this.progressCallback) {
-              this.progressCallback(Math.min(ops / 1000000, 1), ops)
-            }
-          })
-          break
-
-        default:
-          throw new Error(`Unknown task type: ${task.type}`)
+      // Malformed parameters are rejected before any work starts
+      const definition = getTaskType(task.type)
+      const parameters = validateTaskParameters(task.type, task.parameters)
+      const run = definition.run ?? this.kernels[definition.type]
+      if (!run) {
+        throw new Error(`No executor for task type: ${task.type}`)
+      }
+
+      result = await run({
+        parameters,
+        taskHash: task.hash,
+        seed,
+        random,
+        checkpoint,
+        signal: controller.signal,
+        reportProgress: (ops, hint) => {
+          operations = ops
+          progress.update(ops, definition.progress(ops, parameters, hint))
+        },
+        yieldControl: () => this.yieldControl(),
+      })
+
+      progress.setPhase("verifying")
+      if (!definition.result.safeParse(result).success || !(await definition.verify(result, parameters))) {
+        throw new Error(`${task.type} produced a result that failed verification`)
       }
 
       const computationTime = Date.now() - startTime
-      const verificationHash = await this.generateVerificationHash(result, task)
-      const proofOfWork = await this.generateProofOfWork(result, task)
+      const verificationHash = await this.generateVerificationHash(result)
+      progress.setPhase("proving")
+      const proofOfWork = await this.generateProofOfWork(verificationHash, task)
 
-      return {
+      const taskResult: TaskResult = {
         compute_time_ms: computationTime,
         task_id: task.id,
         result_data: result,
@@ -127,67 +228,135 @@ export class ComputeEngine {
         verification_hash: verificationHash,
         proof_of_work: proofOfWork
       }
+      progress.setPhase("completed")
+      this.notify(this.completeListeners, taskResult)
+      return taskResult
 
+    } catch (error) {
+      if (controller.signal.aborted) {
+        progress.setPhase("cancelled")
+        throw new TaskCancelledError(operations)
+      }
+      progress.setPhase("failed")
+      this.notify(this.errorListeners, error instanceof Error ? error : new Error(String(error)))
+      throw error
     } finally {
+      options.signal?.removeEventListener("abort", abortFromCaller)
+      this.abortController = null
+      this.progressTracker = null
       this.isRunning = false
       this.currentTask = null
     }
   }
 
-  private async searchPrimes(params: any, onProgress: (operations: number) => void): Promise<any> {
-    const { range_size, target_primes } = params
-    const primes: number[] = []
+  // Segmented Sieve of Eratosthenes over [range_start, range_end), so units can cover any window up to 2^53
+  private async searchPrimes(params: any, checkpoint: TaskCheckpointer, onProgress: (operations: number, fraction: number) => void): Promise<any> {
+    const legacyRange = params.range_end === undefined && params.range_size !== undefined
+    const rangeStart: number = legacyRange ? 0 : params.range_start ?? 0
+    const rangeEnd: number = legacyRange ? params.range_size + 1 : params.range_end
+    const targetPrimes: number = params.target_primes ?? 100
+    const segmentSize: number = params.segment_size ?? 262144
+
+    if (!Number.isSafeInteger(rangeStart) || !Number.isSafeInteger(rangeEnd) || rangeStart < 0 || rangeEnd <= rangeStart) {
+      throw new Error("prime_search requires integer 0 <= range_start < range_end")
+    }
+
+    // One operation per number examined, matching the type's estimate; sieve marks are not counted
     let operations = 0
-    const sieve = new Array(range_size + 1).fill(true)
-    sieve[0] = sieve[1] = false
-
-    // Sieve of Eratosthenes with progress tracking
-    for (let i = 2; i * i <= range_size; i++) {
-      if (sieve[i]) {
-        for (let j = i * i; j <= range_size; j += i) {
-          sieve[j] = false
-          operations++
-          if (operations % 10000 === 0) {
-            onProgress(operations)
-            await this.yieldControl()
-          }
-        }
+    const span = rangeEnd - rangeStart
+
+    // Base primes up to sqrt(range_end) strike out composites in every segment
+    const limit = Math.floor(Math.sqrt(rangeEnd - 1))
+    const baseSieve = new Uint8Array(limit + 1)
+    const basePrimes: number[] = []
+    for (let i = 2; i <= limit; i++) {
+      if (baseSieve[i]) continue
+      basePrimes.push(i)
+      for (let j = i * i; j <= limit; j += i) {
+        baseSieve[j] = 1
       }
     }
 
-    // Collect primes
-    for (let i = 2; i <= range_size && primes.length < target_primes; i++) {
-      if (sieve[i]) {
-        primes.push(i)
-        operations++
-        if (operations % 1000 === 0) {
-          onProgress(operations)
-          await this.yieldControl()
+    const segment = new Uint8Array(segmentSize)
+    const resume = checkpoint.resumeState
+    const primes: number[] = resume ? resume.primes : []
+    let primeCount: number = resume ? resume.prime_count : 0
+    let primeSum = BigInt(resume ? resume.prime_sum : 0)
+    let smallestPrime: number | null = resume ? resume.smallest_prime : null
+    let largestPrime: number | null = resume ? resume.largest_prime : null
+    if (resume) operations = resume.operations
+
+    for (let low = resume ? resume.next_low : Math.max(rangeStart, 2); low < rangeEnd; low += segmentSize) {
+      const high = Math.min(low + segmentSize, rangeEnd)
+      segment.fill(0)
+
+      for (const p of basePrimes) {
+        if (p * p >= high) break
+        let j = Math.max(p * p, Math.ceil(low / p) * p)
+        for (; j < high; j += p) {
+          segment[j - low] = 1
         }
       }
+
+      for (let n = low; n < high; n++) {
+        if (segment[n - low]) continue
+        primeCount++
+        primeSum += BigInt(n)
+        if (smallestPrime === null) smallestPrime = n
+        largestPrime = n
+        if (primes.length < targetPrimes) primes.push(n)
+      }
+
+      operations += high - low
+      onProgress(operations, (high - rangeStart) / span)
+      checkpoint.save(operations, () => ({
+        next_low: high,
+        operations,
+        primes: [...primes],
+        prime_count: primeCount,
+        prime_sum: primeSum.toString(),
+        smallest_prime: smallestPrime,
+        largest_prime: largestPrime
+      }))
+      await this.yieldControl()
     }
 
     return {
-      primes: primes.slice(0, target_primes),
-      total_primes_found: primes.length,
-      range_searched: range_size,
+      range_start: rangeStart,
+      range_end: rangeEnd,
+      primes: primes,
+      total_primes_found: primeCount,
+      prime_sum: primeSum.toString(),
+      smallest_prime: smallestPrime,
+      largest_prime: largestPrime,
+      range_searched: span,
       operations_performed: operations
     }
   }
 
-  private async computeHashes(params: any, onProgress: (operations: number) => void): Promise<any> {
-    const { hash_function, pattern_length, iterations } = params
-    const results: string[] = []
-    let operations = 0
+  private async computeHashes(params: any, seed: string, random: RandomSource, checkpoint: TaskCheckpointer, onProgress: (operations: number) => void): Promise<any> {
+    const { hash_function, inputs, input_encoding = "utf8" } = params
+    // Batch mode hashes the supplied inputs; otherwise inputs are drawn from the seeded PRNG
+    const batch = Array.isArray(inputs)
+    const iterations: number = batch ? inputs.length : params.iterations
+    const resume = checkpoint.resumeState
+    const results: string[] = resume ? resume.hashes : []
+    let operations = results.length
 
-    for (let i = 0; i < iterations; i++) {
-      const data = `data_${i}_${Date.now()}_${Math.random()}`
+    // Replay the PRNG so resumed iterations see the same inputs
+    if (!batch) {
+      for (let i = 0; i < results.length; i++) random()
+    }
+
+    for (let i = results.length; i < iterations; i++) {
+      const data = batch ? this.decodeHashInput(inputs[i], input_encoding) : `data_${i}_${this.randomToken(random)}`
       const hash = await this.computeHash(data, hash_function)
       results.push(hash)
       operations++
 
       if (operations % 1000 === 0) {
         onProgress(operations)
+        checkpoint.save(operations, () => ({ hashes: [...results] }))
         await this.yieldControl()
       }
     }
@@ -196,67 +365,301 @@ export class ComputeEngine {
       hashes: results,
       total_hashes: results.length,
       hash_function: hash_function,
+      mode: batch ? "batch" : "random",
+      seed: seed,
       operations_performed: operations
     }
   }
 
-  private async performMatrixOperations(params: any, onProgress: (operations: number) => void): Promise<any> {
-    const { matrix_size, precision, operations: ops } = params
-    let totalOperations = 0
+  // Supported operations: multiply, transpose, determinant, inverse, solve, rank, qr.
+  // Matrices larger than full_result_max_elements come back as summary statistics plus a hash.
+  private async performMatrixOperations(params: any, seed: string, random: RandomSource, checkpoint: TaskCheckpointer, onProgress: (operations: number, fraction: number) => void): Promise<any> {
+    const { matrix_size, operations: requested = ["multiply"], full_result_max_elements = 1024 } = params
+    const n: number = matrix_size
+
+    if (!Number.isSafeInteger(n) || n < 1 || n > 2000) {
+      throw new Error("matrix_operations requires 1 <= matrix_size <= 2000")
+    }
+    const unknown = requested.filter((op: string) => !(MATRIX_OPERATIONS as readonly string[]).includes(op))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown matrix operations: ${unknown.join(", ")}`)
+    }
+
+    // Resumed runs skip operations whose results were already checkpointed
+    const resume = checkpoint.resumeState
+    const results: any = resume ? resume.results : {}
+    const pending = (op: string) => requested.includes(op) && !(MATRIX_RESULT_KEYS[op] in results)
+
+    // Rough flop counts so progress moves evenly across operations
+    const needsLU = ["determinant", "inverse", "solve"].some((op) => pending(op))
+    const estimate =
+      2 * n * n +
+      (requested.includes("multiply") ? n * n * n : 0) +
+      (requested.includes("transpose") ? n * n : 0) +
+      (needsLU ? (2 * n * n * n) / 3 : 0) +
+      (requested.includes("inverse") ? 2 * n * n * n : 0) +
+      (requested.includes("solve") ? 2 * n * n : 0) +
+      (requested.includes("rank") ? (2 * n * n * n) / 3 : 0) +
+      (requested.includes("qr") ? 2 * n * n * n : 0)
+
+    let totalOperations: number = resume ? resume.operations : 0
+    const track = (ops: number) => {
+      totalOperations += ops
+      onProgress(totalOperations, Math.min(totalOperations / estimate, 0.99))
+    }
 
     // Generate large matrices
-    const matrix1 = this.generateRandomMatrix(matrix_size, matrix_size)
-    const matrix2 = this.generateRandomMatrix(matrix_size, matrix_size)
-    totalOperations += matrix_size * matrix_size * 2
+    const matrix1 = this.generateRandomMatrix(n, n, random)
+    const matrix2 = this.generateRandomMatrix(n, n, random)
+    if (!resume) track(n * n * 2)
 
-    const results: any = {}
+    const summarize = (matrix: number[][]) => this.summarizeMatrix(matrix, full_result_max_elements)
+    // A factorisation already counted before the checkpoint is rebuilt without re-counting it
+    let luCounted: boolean = resume?.lu_counted ?? false
+    const saveProgress = () =>
+      checkpoint.save(totalOperations, () => ({ results: { ...results }, operations: totalOperations, lu_counted: luCounted }))
 
-    if (ops.includes("multiply")) {
-      const start = Date.now()
-      const product = await this.multiplyMatrices(matrix1, matrix2, (ops) => {
-        totalOperations += ops
-        onProgress(totalOperations)
-      })
-      results.multiplication = {
-        result: product,
-        time_ms: Date.now() - start,
-        operations: totalOperations
+    if (pending("multiply")) {
+      const product = await this.multiplyMatrices(matrix1, matrix2, track)
+      results.multiplication = await summarize(product)
+      saveProgress()
+    }
+
+    if (pending("transpose")) {
+      const transpose = await this.transposeMatrix(matrix1, track)
+      results.transpose = await summarize(transpose)
+      saveProgress()
+    }
+
+    const lu = needsLU ? await this.luDecompose(matrix1, luCounted ? () => {} : track) : null
+    if (lu) luCounted = true
+
+    if (lu && pending("determinant")) {
+      // A pivot under the LU tolerance makes the matrix singular; otherwise multiply the pivots
+      // directly, since a product of the same doubles rounds the same way on every engine
+      let sign = lu.singular ? 0 : lu.sign
+      let determinant = sign
+      let logAbs = 0
+      for (let i = 0; i < n && sign !== 0; i++) {
+        const pivot = lu.lu[i][i]
+        if (pivot < 0) sign = -sign
+        determinant *= pivot
+        logAbs += Math.log(Math.abs(pivot))
       }
+      // Large determinants overflow a double; log_abs_determinant is rounded so replicas agree
+      results.determinant = {
+        result: Number.isFinite(determinant) ? determinant : null,
+        sign: sign,
+        log_abs_determinant: sign === 0 ? null : Number(logAbs.toPrecision(12))
+      }
+      saveProgress()
     }
 
-    if (ops.includes("transpose")) {
-      const start = Date.now()
-      const transpose = await this.transposeMatrix(matrix1, (ops) => {
-        totalOperations += ops
-        onProgress(totalOperations)
-      })
-      results.transpose = {
-        result: transpose,
-        time_ms: Date.now() - start,
-        operations: totalOperations
+    if (lu && pending("inverse")) {
+      if (lu.singular) {
+        results.inverse = { singular: true }
+      } else {
+        const inverse: number[][] = Array(n).fill(null).map(() => Array(n).fill(0))
+        for (let col = 0; col < n; col++) {
+          const unit = Array(n).fill(0)
+          unit[col] = 1
+          const x = this.luSolve(lu, unit)
+          for (let row = 0; row < n; row++) inverse[row][col] = x[row]
+          track(2 * n * n)
+          if (col % 16 === 15) await this.yieldControl()
+        }
+        results.inverse = { singular: false, ...(await summarize(inverse)) }
       }
+      saveProgress()
     }
 
-    if (ops.includes("determinant")) {
-      const start = Date.now()
-      const det = await this.calculateDeterminant(matrix1, (ops) => {
-        totalOperations += ops
-        onProgress(totalOperations)
-      })
-      results.determinant = {
-        result: det,
-        time_ms: Date.now() - start,
-        operations: totalOperations
+    if (lu && pending("solve")) {
+      // Right-hand side comes from the same seeded stream so every replica solves the same system
+      const b = Array.from({ length: n }, () => random() * 100 - 50)
+      if (lu.singular) {
+        results.solve = { singular: true }
+      } else {
+        const x = this.luSolve(lu, b)
+        let residual = 0
+        for (let i = 0; i < n; i++) {
+          let ax = 0
+          for (let j = 0; j < n; j++) ax += matrix1[i][j] * x[j]
+          residual += (ax - b[i]) ** 2
+        }
+        track(4 * n * n)
+        results.solve = {
+          singular: false,
+          residual_norm: Math.sqrt(residual),
+          ...(await summarize([x]))
+        }
+      }
+      saveProgress()
+    }
+
+    if (pending("rank")) {
+      results.rank = { result: await this.matrixRank(matrix1, track) }
+      saveProgress()
+    }
+
+    if (pending("qr")) {
+      const { q, r } = await this.qrDecompose(matrix1, track)
+      results.qr = {
+        q: await summarize(q),
+        r: await summarize(r)
       }
     }
 
+    onProgress(totalOperations, 1)
+
     return {
-      matrix_size: matrix_size,
-      operations_performed: totalOperations,
+      matrix_size: n,
+      seed: seed,
+      operations_performed: Math.round(totalOperations),
       results: results
     }
   }
 
+  // Parameters:
+  //   key_search:         target_hash (SHA-256 hex), key_prefix, keyspace_start, keyspace_end
+  //   frequency_analysis: ciphertext, top_candidates
+  private async performCryptoAnalysis(params: any, checkpoint: TaskCheckpointer, onProgress: (operations: number, total: number) => void): Promise<any> {
+    const mode = params.mode || "key_search"
+
+    if (mode === "frequency_analysis") {
+      return await this.analyzeFrequencies(params, onProgress)
+    }
+
+    if (mode === "key_search") {
+      return await this.searchKeyspace(params, checkpoint, onProgress)
+    }
+
+    throw new Error(`Unknown crypto_analysis mode: ${mode}`)
+  }
+
+  private async searchKeyspace(params: any, checkpoint: TaskCheckpointer, onProgress: (operations: number, total: number) => void): Promise<any> {
+    const { target_hash, key_prefix = "", keyspace_start = 0, keyspace_end } = params
+
+    if (typeof target_hash !== "string" || !/^[0-9a-f]{64}$/i.test(target_hash)) {
+      throw new Error("crypto_analysis key_search requires a SHA-256 hex target_hash")
+    }
+    if (!Number.isSafeInteger(keyspace_start) || !Number.isSafeInteger(keyspace_end) || keyspace_end <= keyspace_start) {
+      throw new Error("crypto_analysis key_search requires integer keyspace_start < keyspace_end")
+    }
+
+    const target = target_hash.toLowerCase()
+    const total = keyspace_end - keyspace_start
+    const resume = checkpoint.resumeState
+    let operations: number = resume ? resume.operations : 0
+    let foundKey: number | null = null
+
+    // Brute-force this unit's partition [keyspace_start, keyspace_end)
+    for (let key = resume ? resume.next_key : keyspace_start; key < keyspace_end; key++) {
+      const hash = await this.computeHash(`${key_prefix}${key}`, "sha256")
+      operations++
+
+      if (hash === target) {
+        foundKey = key
+        break
+      }
+
+      if (operations % 1000 === 0) {
+        onProgress(operations, total)
+        checkpoint.save(operations, () => ({ next_key: key + 1, operations }))
+        await this.yieldControl()
+      }
+    }
+
+    onProgress(operations, total)
+
+    return {
+      mode: "key_search",
+      target_hash: target,
+      key_prefix: key_prefix,
+      keyspace_start: keyspace_start,
+      keyspace_end: keyspace_end,
+      keys_tested: operations,
+      found: foundKey !== null,
+      key: foundKey,
+      candidate: foundKey !== null ? `${key_prefix}${foundKey}` : null,
+      operations_performed: operations
+    }
+  }
+
+  private async analyzeFrequencies(params: any, onProgress: (operations: number, total: number) => void): Promise<any> {
+    const { ciphertext, top_candidates = 3 } = params
+
+    if (typeof ciphertext !== "string" || ciphertext.length === 0) {
+      throw new Error("crypto_analysis frequency_analysis requires a non-empty ciphertext")
+    }
+
+    const text = ciphertext.toUpperCase()
+    const total = text.length + 26
+    const counts = new Array(26).fill(0)
+    let letters = 0
+    let operations = 0
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i) - 65
+      if (code >= 0 && code < 26) {
+        counts[code]++
+        letters++
+      }
+      operations++
+      if (operations % 10000 === 0) {
+        onProgress(operations, total)
+        await this.yieldControl()
+      }
+    }
+
+    if (letters === 0) {
+      throw new Error("crypto_analysis frequency_analysis ciphertext contains no letters")
+    }
+
+    // Index of coincidence distinguishes monoalphabetic (~0.066) from polyalphabetic (~0.038) text
+    const indexOfCoincidence = letters > 1
+      ? counts.reduce((sum, c) => sum + c * (c - 1), 0) / (letters * (letters - 1))
+      : 0
+
+    // Score every Caesar shift by chi-squared distance from English letter frequencies
+    const shifts: { shift: number; chi_squared: number }[] = []
+    for (let shift = 0; shift < 26; shift++) {
+      let chiSquared = 0
+      for (let letter = 0; letter < 26; letter++) {
+        const observed = counts[(letter + shift) % 26]
+        const expected = ENGLISH_LETTER_FREQUENCIES[letter] * letters
+        chiSquared += ((observed - expected) ** 2) / expected
+      }
+      shifts.push({ shift, chi_squared: Math.round(chiSquared * 1000) / 1000 })
+      operations++
+    }
+
+    shifts.sort((a, b) => a.chi_squared - b.chi_squared || a.shift - b.shift)
+    onProgress(operations, total)
+
+    const candidates = shifts.slice(0, Math.max(1, top_candidates)).map(({ shift, chi_squared }) => ({
+      shift,
+      chi_squared,
+      plaintext_preview: this.caesarShift(ciphertext.slice(0, 64), -shift)
+    }))
+
+    return {
+      mode: "frequency_analysis",
+      letter_counts: Object.fromEntries(counts.map((c, i) => [String.fromCharCode(65 + i), c])),
+      letters_analyzed: letters,
+      index_of_coincidence: Math.round(indexOfCoincidence * 100000) / 100000,
+      candidates: candidates,
+      operations_performed: operations
+    }
+  }
+
+  private caesarShift(text: string, shift: number): string {
+    const offset = ((shift % 26) + 26) % 26
+    return text.replace(/[a-z]/gi, (ch) => {
+      const base = ch <= "Z" ? 65 : 97
+      return String.fromCharCode(((ch.charCodeAt(0) - base + offset) % 26) + base)
+    })
+  }
+
   private async computeFactorial(maxNumber: number, onProgress: (operations: number) => void): Promise<any> {
     let operations = 0
     const factorials: bigint[] = []
@@ -301,45 +704,308 @@ export class ComputeEngine {
     }
   }
 
-  private async calculatePi(digits: number, onProgress: (operations: number) => void): Promise<any> {
-    let operations = 0
-    let pi = 0
-    let sign = 1
-    
-    // Leibniz formula for π
-    for (let i = 0; i < digits * 1000; i++) {
-      pi += sign / (2 * i + 1)
-      sign = -sign
+  // Parameters:
+  //   decimal (default): digits - exact decimal digits after the point, via the Chudnovsky series
+  //   hex_range:         digit_start (1-based), digit_count - hexadecimal digits via BBP digit extraction
+  private async calculatePi(params: any, checkpoint: TaskCheckpointer, onProgress: (operations: number, fraction: number) => void): Promise<any> {
+    const mode = params.mode || "decimal"
+
+    let digits: string
+    let operations: number
+
+    if (mode === "decimal") {
+      ({ digits, operations } = await this.chudnovskyPi(params.digits, checkpoint, onProgress))
+    } else if (mode === "hex_range") {
+      ({ digits, operations } = await this.bbpHexDigits(params.digit_start, params.digit_count, onProgress))
+    } else {
+      throw new Error(`Unknown pi_calculation mode: ${mode}`)
+    }
+
+    return {
+      mode: mode,
+      digit_start: mode === "hex_range" ? params.digit_start : 1,
+      digit_count: digits.length,
+      digits: digits,
+      checksum: await this.computeHash(digits, "sha256"),
+      operations_performed: operations
+    }
+  }
+
+  private async chudnovskyPi(digits: number, checkpoint: TaskCheckpointer, onProgress: (operations: number, fraction: number) => void): Promise<{ digits: string; operations: number }> {
+    if (!Number.isSafeInteger(digits) || digits < 1 || digits > 1000000) {
+      throw new Error("pi_calculation requires 1 <= digits <= 1000000")
+    }
+
+    // Work with guard digits in fixed point so truncation never reaches the requested digits
+    const guard = 10
+    const one = this.bigPow10(digits + guard)
+    const c3Over24 = BigInt(640320) * BigInt(640320) * BigInt(640320) / BigInt(24)
+    const expectedTerms = Math.ceil(digits / 14.18) + 1
+
+    const resume = checkpoint.resumeState
+    let k: number = resume ? resume.k : 1
+    let term = resume ? BigInt(resume.term) : one
+    let aSum = resume ? BigInt(resume.a_sum) : one
+    let bSum = resume ? BigInt(resume.b_sum) : BigInt(0)
+    let operations = k - 1
+
+    while (term !== BigInt(0)) {
+      const bk = BigInt(k)
+      term *= -(BigInt(6) * bk - BigInt(5)) * (BigInt(2) * bk - BigInt(1)) * (BigInt(6) * bk - BigInt(1))
+      term /= bk * bk * bk * c3Over24
+      aSum += term
+      bSum += bk * term
+      k++
       operations++
-      
-      if (operations % 10000 === 0) {
-        onProgress(operations)
+
+      if (operations % 50 === 0) {
+        onProgress(operations, Math.min(operations / expectedTerms, 0.99))
+        checkpoint.save(operations, () => ({
+          k,
+          term: term.toString(),
+          a_sum: aSum.toString(),
+          b_sum: bSum.toString()
+        }))
         await this.yieldControl()
       }
     }
-    
-    pi *= 4
+
+    const total = BigInt(13591409) * aSum + BigInt(545140134) * bSum
+    const sqrt10005 = this.bigSqrt(BigInt(10005) * one * one)
+    const pi = (BigInt(426880) * sqrt10005 * one) / total
+
+    const fractional = pi.toString().slice(1, digits + 1)
+    onProgress(operations, 1)
+
+    return { digits: fractional, operations }
+  }
+
+  // Bailey-Borwein-Plouffe extraction of hex digits digit_start .. digit_start + digit_count - 1
+  private async bbpHexDigits(digitStart: number, digitCount: number, onProgress: (operations: number, fraction: number) => void): Promise<{ digits: string; operations: number }> {
+    if (!Number.isSafeInteger(digitStart) || digitStart < 1 || digitStart > 10000000) {
+      throw new Error("pi_calculation hex_range requires 1 <= digit_start <= 10000000")
+    }
+    if (!Number.isSafeInteger(digitCount) || digitCount < 1 || digitCount > 100000) {
+      throw new Error("pi_calculation hex_range requires 1 <= digit_count <= 100000")
+    }
+
+    const d = digitStart - 1
+    const guard = 12
+    const bits = BigInt(4 * (digitCount + guard))
+    const scale = BigInt(1) << bits
+    let operations = 0
+
+    // frac(16^d * pi) = 4*S(1) - 2*S(4) - S(5) - S(6) in fixed point
+    const series = async (j: number, weight: number): Promise<bigint> => {
+      let sum = BigInt(0)
+      for (let k = 0; k <= d; k++) {
+        const m = 8 * k + j
+        sum += (BigInt(this.modPow16(d - k, m)) << bits) / BigInt(m)
+        operations++
+        if (operations % 20000 === 0) {
+          onProgress(operations, Math.min((operations / (4 * (d + 1))) * 0.99, 0.99))
+          await this.yieldControl()
+        }
+      }
+      for (let k = d + 1; ; k++) {
+        const tail = (scale >> BigInt(4 * (k - d))) / BigInt(8 * k + j)
+        if (tail === BigInt(0)) break
+        sum += tail
+        operations++
+      }
+      return BigInt(weight) * sum
+    }
+
+    let fraction = (await series(1, 4)) - (await series(4, 2)) - (await series(5, 1)) - (await series(6, 1))
+    fraction %= scale
+    if (fraction < BigInt(0)) fraction += scale
+
+    const digits = fraction.toString(16).padStart(digitCount + guard, "0").slice(0, digitCount).toUpperCase()
+    onProgress(operations, 1)
+
+    return { digits, operations }
+  }
+
+  // 16^exponent mod modulus; modulus stays below 2^26 so products fit in a double exactly
+  private modPow16(exponent: number, modulus: number): number {
+    if (modulus === 1) return 0
+    let result = 1
+    let base = 16 % modulus
+    let e = exponent
+    while (e > 0) {
+      if (e & 1) result = (result * base) % modulus
+      base = (base * base) % modulus
+      e = Math.floor(e / 2)
+    }
+    return result
+  }
+
+  private bigPow10(exponent: number): bigint {
+    let result = BigInt(1)
+    let base = BigInt(10)
+    let e = exponent
+    while (e > 0) {
+      if (e & 1) result *= base
+      base *= base
+      e = Math.floor(e / 2)
+    }
+    return result
+  }
+
+  // Integer square root by Newton's method
+  private bigSqrt(value: bigint): bigint {
+    if (value < BigInt(2)) return value
+    let x = BigInt(1) << BigInt(Math.ceil(value.toString(2).length / 2))
+    while (true) {
+      const next = (x + value / x) >> BigInt(1)
+      if (next >= x) return x
+      x = next
+    }
+  }
+
+  // Seeded sampling that returns sufficient statistics (count, mean, M2, histogram) so units merge exactly
+  private async runMonteCarlo(params: any, seed: string, random: RandomSource, checkpoint: TaskCheckpointer, onProgress: (operations: number) => void): Promise<any> {
+    const { simulation, samples, bins } = params
+    const draws = monteCarloDrawsPerSample(params)
+    const [low, high] = this.monteCarloHistogramBounds(params)
+    const width = (high - low) / bins
+    const sample = this.monteCarloKernel(params, random)
+
+    const resume = checkpoint.resumeState
+    let count: number = resume ? resume.count : 0
+    let mean: number = resume ? resume.mean : 0
+    let m2: number = resume ? resume.m2 : 0
+    let min: number = resume ? resume.min : Number.POSITIVE_INFINITY
+    let max: number = resume ? resume.max : Number.NEGATIVE_INFINITY
+    let underflow: number = resume ? resume.underflow : 0
+    let overflow: number = resume ? resume.overflow : 0
+    const counts: number[] = resume ? resume.counts : new Array(bins).fill(0)
+
+    // Replay the PRNG so resumed samples see the same draws
+    for (let i = 0; i < count * draws; i++) random()
+
+    while (count < samples) {
+      const value = sample()
+
+      // Welford's online update
+      count++
+      const delta = value - mean
+      mean += delta / count
+      m2 += delta * (value - mean)
+      if (value < min) min = value
+      if (value > max) max = value
+
+      // Bins are [low, high) except the last, which also takes value === high
+      if (value < low) underflow++
+      else if (value > high) overflow++
+      else counts[Math.min(Math.floor((value - low) / width), bins - 1)]++
+
+      if (count % 10000 === 0) {
+        onProgress(count * draws)
+        checkpoint.save(count * draws, () => ({ count, mean, m2, min, max, underflow, overflow, counts: [...counts] }))
+        await this.yieldControl()
+      }
+    }
+
+    // Math.exp/log/cos may differ in the last bit between JS engines; 12 significant digits keep replicas in agreement
+    const round = (value: number) => Number(value.toPrecision(12))
 
     return {
-      pi_approximation: pi,
-      digits_requested: digits,
-      operations_performed: operations
+      simulation,
+      statistics: {
+        count,
+        mean: round(mean),
+        m2: round(m2),
+        min: round(min),
+        max: round(max),
+      },
+      histogram: { min: low, max: high, counts, underflow, overflow },
+      estimate: round(mean),
+      standard_error: count > 1 ? round(Math.sqrt(m2 / (count - 1) / count)) : null,
+      seed: seed,
+      operations_performed: count * draws
     }
   }
 
-  private async mineSHA256(targetPattern: string, onProgress: (operations: number) => void): Promise<any> {
-    let operations = 0
-    let nonce = 0
+  // One sample per call, consuming exactly monteCarloDrawsPerSample(params) draws
+  private monteCarloKernel(params: any, random: RandomSource): () => number {
+    switch (params.simulation) {
+      case "pi":
+        // 4 × the indicator of landing inside the quarter circle; its mean converges to pi
+        return () => {
+          const x = random()
+          const y = random()
+          return x * x + y * y <= 1 ? 4 : 0
+        }
+
+      case "random_walk": {
+        const { steps, step_size } = params
+        return () => {
+          let position = 0
+          for (let step = 0; step < steps; step++) {
+            position += random() < 0.5 ? -step_size : step_size
+          }
+          return position
+        }
+      }
+
+      case "option_pricing": {
+        // Discounted European payoff under geometric Brownian motion
+        const { spot, strike, rate, volatility, maturity, option_type } = params
+        const drift = (rate - (volatility * volatility) / 2) * maturity
+        const diffusion = volatility * Math.sqrt(maturity)
+        const discount = Math.exp(-rate * maturity)
+        return () => {
+          // Box-Muller; 1 - u keeps the logarithm finite
+          const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+          const terminal = spot * Math.exp(drift + diffusion * z)
+          return discount * Math.max(option_type === "call" ? terminal - strike : strike - terminal, 0)
+        }
+      }
+    }
+    throw new Error(`Unknown Monte Carlo simulation: ${params.simulation}`)
+  }
+
+  private monteCarloHistogramBounds(params: any): [number, number] {
+    const [defaultLow, defaultHigh] = this.defaultMonteCarloBounds(params)
+    const low: number = params.histogram_min ?? defaultLow
+    const high: number = params.histogram_max ?? defaultHigh
+    if (!(low < high)) {
+      throw new Error("monte_carlo histogram_min must be less than histogram_max")
+    }
+    return [low, high]
+  }
+
+  private defaultMonteCarloBounds(params: any): [number, number] {
+    switch (params.simulation) {
+      case "pi":
+        return [0, 4]
+      case "random_walk": {
+        const spread = 4 * params.step_size * Math.sqrt(params.steps)
+        return [-spread, spread]
+      }
+      default:
+        // A put pays at most the strike; calls are cut off at twice the larger of spot and strike
+        return [0, params.option_type === "put" ? params.strike : 2 * Math.max(params.spot, params.strike)]
+    }
+  }
+
+  private async mineSHA256(targetPattern: string, hashFunction: string, seed: string, random: RandomSource, checkpoint: TaskCheckpointer, onProgress: (operations: number) => void): Promise<any> {
+    const resume = checkpoint.resumeState
+    let operations: number = resume ? resume.nonce : 0
+    let nonce: number = resume ? resume.nonce : 0
     let hash = ""
+    const blockHeader = this.randomToken(random)
     
     while (!hash.startsWith(targetPattern) && operations < 1000000) {
-      const data = `block_${Date.now()}_${nonce}_${Math.random()}`
-      hash = await this.computeHash(data, "sha256")
+      const data = `block_${blockHeader}_${nonce}`
+      hash = await this.computeHash(data, hashFunction)
       nonce++
       operations++
       
       if (operations % 10000 === 0) {
         onProgress(operations)
+        checkpoint.save(operations, () => ({ nonce }))
         await this.yieldControl()
       }
     }
@@ -348,6 +1014,9 @@ export class ComputeEngine {
       hash_found: hash,
       nonce_used: nonce,
       target_pattern: targetPattern,
+      hash_function: hashFunction,
+      block_header: blockHeader,
+      seed: seed,
       operations_performed: operations
     }
   }
@@ -355,20 +1024,19 @@ export class ComputeEngine {
   private async multiplyMatrices(matrix1: number[][], matrix2: number[][], onProgress: (operations: number) => void): Promise<number[][]> {
     const rows = matrix1.length
     const cols = matrix2[0].length
+    const inner = matrix1[0].length
     const result: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(0))
-    let operations = 0
 
     for (let i = 0; i < rows; i++) {
       for (let j = 0; j < cols; j++) {
-        for (let k = 0; k < matrix1[0].length; k++) {
-          result[i][j] += matrix1[i][k] * matrix2[k][j]
-          operations++
-        }
-        if (operations % 10000 === 0) {
-          onProgress(operations)
-          await this.yieldControl()
+        let sum = 0
+        for (let k = 0; k < inner; k++) {
+          sum += matrix1[i][k] * matrix2[k][j]
         }
+        result[i][j] = sum
       }
+      onProgress(cols * inner)
+      await this.yieldEvery(i)
     }
 
     return result
@@ -378,106 +1046,318 @@ export class ComputeEngine {
     const rows = matrix.length
     const cols = matrix[0].length
     const result: number[][] = Array(cols).fill(null).map(() => Array(rows).fill(0))
-    let operations = 0
 
     for (let i = 0; i < rows; i++) {
       for (let j = 0; j < cols; j++) {
         result[j][i] = matrix[i][j]
-        operations++
-        if (operations % 10000 === 0) {
-          onProgress(operations)
-          await this.yieldControl()
-        }
       }
+      onProgress(cols)
+      await this.yieldEvery(i)
     }
 
     return result
   }
 
-  private async calculateDeterminant(matrix: number[][], onProgress: (operations: number) => void): Promise<number> {
+  // Doolittle LU decomposition with partial pivoting: P*A = L*U, packed into one matrix
+  private async luDecompose(matrix: number[][], onProgress: (operations: number) => void): Promise<LUDecomposition> {
     const n = matrix.length
-    let operations = 0
+    const lu = matrix.map((row) => [...row])
+    const perm = Array.from({ length: n }, (_, i) => i)
+    let sign = 1
+    let singular = false
+    const tolerance = n * Number.EPSILON * this.maxAbs(matrix)
+
+    for (let k = 0; k < n; k++) {
+      let pivotRow = k
+      for (let i = k + 1; i < n; i++) {
+        if (Math.abs(lu[i][k]) > Math.abs(lu[pivotRow][k])) pivotRow = i
+      }
+
+      if (pivotRow !== k) {
+        ;[lu[k], lu[pivotRow]] = [lu[pivotRow], lu[k]]
+        ;[perm[k], perm[pivotRow]] = [perm[pivotRow], perm[k]]
+        sign = -sign
+      }
+
+      const pivot = lu[k][k]
+      if (Math.abs(pivot) <= tolerance) {
+        singular = true
+        continue
+      }
 
-    if (n === 1) return matrix[0][0]
-    if (n === 2) return matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0]
+      for (let i = k + 1; i < n; i++) {
+        const factor = lu[i][k] / pivot
+        lu[i][k] = factor
+        if (factor === 0) continue
+        const rowI = lu[i]
+        const rowK = lu[k]
+        for (let j = k + 1; j < n; j++) {
+          rowI[j] -= factor * rowK[j]
+        }
+      }
+
+      onProgress(2 * (n - k) * (n - k))
+      await this.yieldEvery(k)
+    }
+
+    return { lu, perm, sign, singular }
+  }
+
+  // Solve A*x = b given the packed LU factors of A
+  private luSolve({ lu, perm }: LUDecomposition, b: number[]): number[] {
+    const n = lu.length
+    const y = perm.map((p) => b[p])
 
-    let det = 0
     for (let i = 0; i < n; i++) {
-      const minor = this.getMinor(matrix, 0, i)
-      det += matrix[0][i] * Math.pow(-1, i) * await this.calculateDeterminant(minor, (ops) => {
-        operations += ops
-        onProgress(operations)
-      })
-      operations++
-      if (operations % 1000 === 0) {
-        onProgress(operations)
-        await this.yieldControl()
+      let sum = y[i]
+      for (let j = 0; j < i; j++) sum -= lu[i][j] * y[j]
+      y[i] = sum
+    }
+
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = y[i]
+      for (let j = i + 1; j < n; j++) sum -= lu[i][j] * y[j]
+      y[i] = sum / lu[i][i]
+    }
+
+    return y
+  }
+
+  // Numerical rank via Gaussian elimination with partial pivoting and a relative tolerance
+  private async matrixRank(matrix: number[][], onProgress: (operations: number) => void): Promise<number> {
+    const rows = matrix.length
+    const cols = matrix[0].length
+    const a = matrix.map((row) => [...row])
+    const tolerance = Math.max(rows, cols) * Number.EPSILON * this.maxAbs(matrix)
+    let rank = 0
+
+    for (let col = 0; col < cols && rank < rows; col++) {
+      let pivotRow = rank
+      for (let i = rank + 1; i < rows; i++) {
+        if (Math.abs(a[i][col]) > Math.abs(a[pivotRow][col])) pivotRow = i
+      }
+      if (Math.abs(a[pivotRow][col]) <= tolerance) continue
+
+      ;[a[rank], a[pivotRow]] = [a[pivotRow], a[rank]]
+      for (let i = rank + 1; i < rows; i++) {
+        const factor = a[i][col] / a[rank][col]
+        for (let j = col; j < cols; j++) a[i][j] -= factor * a[rank][j]
+      }
+
+      onProgress(2 * (rows - rank) * (cols - col))
+      rank++
+      await this.yieldEvery(col)
+    }
+
+    return rank
+  }
+
+  // Householder QR decomposition: A = Q*R with Q orthogonal and R upper triangular
+  private async qrDecompose(matrix: number[][], onProgress: (operations: number) => void): Promise<{ q: number[][]; r: number[][] }> {
+    const m = matrix.length
+    const n = matrix[0].length
+    const r = matrix.map((row) => [...row])
+    const q: number[][] = Array(m).fill(null).map((_, i) => Array(m).fill(0).map((_, j) => (i === j ? 1 : 0)))
+
+    for (let k = 0; k < Math.min(m - 1, n); k++) {
+      let norm = 0
+      for (let i = k; i < m; i++) norm += r[i][k] * r[i][k]
+      norm = Math.sqrt(norm)
+      if (norm === 0) continue
+
+      const alpha = r[k][k] > 0 ? -norm : norm
+      const v = Array(m).fill(0)
+      for (let i = k; i < m; i++) v[i] = r[i][k]
+      v[k] -= alpha
+      let vNorm = 0
+      for (let i = k; i < m; i++) vNorm += v[i] * v[i]
+      if (vNorm === 0) continue
+
+      // R = (I - 2vv^T/v^Tv) R
+      for (let j = k; j < n; j++) {
+        let dot = 0
+        for (let i = k; i < m; i++) dot += v[i] * r[i][j]
+        const scale = (2 * dot) / vNorm
+        for (let i = k; i < m; i++) r[i][j] -= scale * v[i]
+      }
+
+      // Q = Q (I - 2vv^T/v^Tv)
+      for (let i = 0; i < m; i++) {
+        let dot = 0
+        for (let j = k; j < m; j++) dot += q[i][j] * v[j]
+        const scale = (2 * dot) / vNorm
+        for (let j = k; j < m; j++) q[i][j] -= scale * v[j]
+      }
+
+      for (let i = k + 1; i < m; i++) r[i][k] = 0
+
+      onProgress(4 * (m - k) * (n - k) + 4 * m * (m - k))
+      await this.yieldEvery(k)
+    }
+
+    return { q, r }
+  }
+
+  // Summary statistics and a content hash; the full matrix is only included when small
+  private async summarizeMatrix(matrix: number[][], fullResultMaxElements: number): Promise<any> {
+    const rows = matrix.length
+    const cols = matrix[0]?.length || 0
+    let min = Infinity
+    let max = -Infinity
+    let sum = 0
+    let sumSquares = 0
+    let trace = 0
+
+    for (let i = 0; i < rows; i++) {
+      for (let j = 0; j < cols; j++) {
+        const value = matrix[i][j]
+        if (value < min) min = value
+        if (value > max) max = value
+        sum += value
+        sumSquares += value * value
+        if (i === j) trace += value
       }
     }
 
-    return det
+    const summary: any = {
+      rows: rows,
+      cols: cols,
+      min: min,
+      max: max,
+      mean: sum / (rows * cols),
+      frobenius_norm: Math.sqrt(sumSquares),
+      trace: trace,
+      hash: await this.computeHash(matrix.map((row) => row.join(",")).join(";"), "sha256")
+    }
+
+    if (rows * cols <= fullResultMaxElements) {
+      summary.result = matrix
+    }
+
+    return summary
+  }
+
+  private maxAbs(matrix: number[][]): number {
+    let max = 0
+    for (const row of matrix) {
+      for (const value of row) {
+        const abs = Math.abs(value)
+        if (abs > max) max = abs
+      }
+    }
+    return max
   }
 
-  private getMinor(matrix: number[][], row: number, col: number): number[][] {
-    return matrix.filter((_, i) => i !== row).map(row => row.filter((_, j) => j !== col))
+  // Yield to the event loop every 16 rows of an O(n^2)-per-row loop
+  private async yieldEvery(index: number): Promise<void> {
+    if (index % 16 === 15) {
+      await this.yieldControl()
+    }
   }
 
-  private generateRandomMatrix(rows: number, cols: number): number[][] {
+  private generateRandomMatrix(rows: number, cols: number, random: RandomSource): number[][] {
     const result: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(0))
 
     for (let i = 0; i < rows; i++) {
       for (let j = 0; j < cols; j++) {
-        result[i][j] = Math.random() * 100 - 50 // Random number between -50 and 50
+        result[i][j] = random() * 100 - 50 // Random number between -50 and 50
       }
     }
 
     return result
   }
 
-  private async computeHash(data: string, algorithm: string): Promise<string> {
-    if (algorithm === "sha256") {
-      const encoder = new TextEncoder()
-      const dataBuffer = encoder.encode(data)
-      const hashBuffer = await crypto.subtle.digest("SHA-256", dataBuffer)
-      const hashArray = Array.from(new Uint8Array(hashBuffer))
-      return hashArray.map(b => b.toString(16).padStart(2, "0")).join("")
+  private randomToken(random: RandomSource): string {
+    return Math.floor(random() * 0x100000000).toString(16).padStart(8, "0")
+  }
+
+  // Throws UnsupportedHashAlgorithmError for anything outside HASH_ALGORITHMS
+  private async computeHash(data: string | Uint8Array, algorithm: string): Promise<string> {
+    return await hashHex(data, algorithm)
+  }
+
+  private decodeHashInput(input: string, encoding: "utf8" | "base64" | "hex"): string | Uint8Array {
+    if (encoding === "base64") {
+      return Uint8Array.from(atob(input), (ch) => ch.charCodeAt(0))
     }
-    
-    // Fallback to simple hash for other algorithms
-    let hash = 0
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
+    if (encoding === "hex") {
+      return Uint8Array.from(input.match(/../g) ?? [], (pair) => parseInt(pair, 16))
     }
-    return Math.abs(hash).toString(16)
+    return input
   }
 
-  private async generateVerificationHash(result: any, task: ComputeTask): Promise<string> {
-    const data = JSON.stringify(result) + task.hash + task.signature
-    return await this.computeHash(data, "sha256")
+  // Matches result_hash() on the server, which hashes result_data as stored
+  private async generateVerificationHash(result: any): Promise<string> {
+    return await this.computeHash(canonicalResultText(result), "sha256")
   }
 
-  private async generateProofOfWork(result: any, task: ComputeTask): Promise<string> {
-    const data = JSON.stringify(result) + task.hash
-    let nonce = 0
-    let hash = ""
-    
-    while (!hash.startsWith("000") && nonce < 10000) {
-      hash = await this.computeHash(data + nonce, "sha256")
-      nonce++
+  // Bound to this execution so replicas with identical results cannot reuse each other's proofs
+  private async generateProofOfWork(verificationHash: string, task: ComputeTask): Promise<ProofOfWork> {
+    const difficulty = task.pow_difficulty ?? DEFAULT_POW_DIFFICULTY
+    const challenge = `${verificationHash}:${task.execution_id ?? task.id}`
+    const threshold = Math.pow(2, 32 - difficulty)
+
+    for (let nonce = 0; ; nonce++) {
+      const hash = await this.computeHash(`${challenge}:${nonce}`, "sha256")
+      if (parseInt(hash.slice(0, 8), 16) < threshold) {
+        return { algorithm: "sha256", challenge, nonce, difficulty, hash }
+      }
+      if (nonce % 1000 === 999) {
+        await this.yieldControl()
+      }
+    }
+  }
+
+  private createCheckpointer(options: ExecuteOptions): TaskCheckpointer {
+    const interval = options.checkpointIntervalMs ?? 5000
+    let lastSaved = Date.now()
+
+    return {
+      resumeState: options.resumeState ?? null,
+      save: (operations, buildState) => {
+        if (!options.onCheckpoint) return
+        const now = Date.now()
+        if (now - lastSaved < interval) return
+        lastSaved = now
+        options.onCheckpoint(buildState(), operations)
+      },
     }
-    
-    return hash
   }
 
   private async yieldControl(): Promise<void> {
-    // Allow other tasks to run
-    await new Promise(resolve => setTimeout(resolve, 1))
+    this.throwIfAborted()
+    // Allow other tasks to run, sleeping longer when the slice used up the duty cycle
+    await this.throttle.pause(this.abortController?.signal)
+    this.throwIfAborted()
+  }
+
+  private throwIfAborted(): void {
+    if (this.abortController?.signal.aborted) {
+      throw new Error("Task aborted")
+    }
+  }
+
+  // Listener failures are logged so they never affect the run that triggered them
+  private notify<T>(listeners: Set<(value: T) => void | Promise<void>>, value: T): void {
+    listeners.forEach((listener) => {
+      Promise.resolve()
+        .then(() => listener(value))
+        .catch((error) => console.error("[v0] Compute engine listener failed:", error))
+    })
   }
 
   public stop(): void {
     this.isRunning = false
+    this.abortController?.abort()
+  }
+
+  // Fraction of one core this engine may use (0.05-1); applies from the next yield point
+  public setDutyCycle(dutyCycle: number): void {
+    this.throttle.setDutyCycle(dutyCycle)
+  }
+
+  public getDutyCycle(): number {
+    return this.throttle.getDutyCycle()
   }
 
   public isCurrentlyRunning(): boolean {
@@ -0,0 +1,10 @@
+// worker_threads entrypoint for headless contributors; the Node counterpart of compute-worker.ts
+import { parentPort } from "worker_threads"
+import { createComputeWorkerHost, type WorkerRequest } from "./worker-pool"
+
+const port = parentPort!
+const handle = createComputeWorkerHost((message) => port.postMessage(message))
+
+port.on("message", (message: WorkerRequest) => {
+  void handle(message)
+})
@@ -0,0 +1,13 @@
+// Web Worker entrypoint that runs ComputeEngine tasks off the main thread
+import { createComputeWorkerHost, type WorkerRequest, type WorkerResponse } from "./worker-pool"
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null
+  postMessage: (message: WorkerResponse) => void
+}
+
+const handle = createComputeWorkerHost((message) => ctx.postMessage(message))
+
+ctx.onmessage = (event) => {
+  void handle(event.data)
+}
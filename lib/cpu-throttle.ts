@@ -0,0 +1,87 @@
+// Cooperative CPU limiter: kernels run in slices and sleep between them so busy / (busy + idle) tracks a duty cycle
+
+// Busy time accumulated before the throttle sleeps to pay it back
+export const THROTTLE_SLICE_MS = 50
+
+// Floor so a tiny budget still makes progress and sleeps stay bounded (at most ~20 slices of sleep)
+export const MIN_DUTY_CYCLE = 0.05
+
+// Share of one core each of `workers` parallel workers may use so together they stay within maxCpuPercent of the machine
+export function dutyCycleFor(maxCpuPercent: number, cores: number, workers: number): number {
+  const budget = (Math.max(0, maxCpuPercent) / 100) * Math.max(1, cores)
+  return clampDutyCycle(budget / Math.max(1, workers))
+}
+
+export function clampDutyCycle(dutyCycle: number): number {
+  if (!Number.isFinite(dutyCycle)) return 1
+  return Math.min(1, Math.max(MIN_DUTY_CYCLE, dutyCycle))
+}
+
+export class DutyCycleThrottle {
+  private dutyCycle = 1
+  private busyMs = 0
+  private idleMs = 0
+  private resumedAt = performance.now()
+
+  constructor(dutyCycle = 1) {
+    this.setDutyCycle(dutyCycle)
+  }
+
+  // Takes effect at the next pause, so limits can change mid-task
+  public setDutyCycle(dutyCycle: number): void {
+    this.dutyCycle = clampDutyCycle(dutyCycle)
+  }
+
+  public getDutyCycle(): number {
+    return this.dutyCycle
+  }
+
+  // Start a fresh slice so time spent between runs is not counted as busy
+  public reset(): void {
+    this.busyMs = 0
+    this.idleMs = 0
+    this.resumedAt = performance.now()
+  }
+
+  // Called at every yield point; always yields at least 1ms, and once a slice is used up
+  // sleeps long enough for the slice to average out at the duty cycle. Aborting cuts the sleep short.
+  public async pause(signal?: AbortSignal): Promise<void> {
+    const pausedAt = performance.now()
+    this.busyMs += pausedAt - this.resumedAt
+
+    const sliceComplete = this.busyMs >= THROTTLE_SLICE_MS
+    let sleepMs = 1
+    if (sliceComplete) {
+      const targetIdleMs = (this.busyMs * (1 - this.dutyCycle)) / this.dutyCycle
+      sleepMs = Math.max(1, targetIdleMs - this.idleMs)
+    }
+
+    await sleep(sleepMs, signal)
+
+    this.resumedAt = performance.now()
+    if (sliceComplete) {
+      this.busyMs = 0
+      this.idleMs = 0
+    } else {
+      this.idleMs += this.resumedAt - pausedAt
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
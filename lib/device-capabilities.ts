@@ -0,0 +1,74 @@
+// What a device can offer the network right now, and the minimums operations require of it
+import type { DeviceInfo, RealTimeStats, ResourceLimits } from "./hardware-detection"
+
+// Reported with every claim; claim_work_unit only offers units whose operation these satisfy
+export interface DeviceCapabilities {
+  // Cores' worth of CPU the limits allow, e.g. 8 cores at 25% is 2
+  cpu_cores: number
+  // Device memory capped by max_memory_mb
+  memory_mb: number
+  performance_score: number
+  // Devices without a battery count as charging
+  is_charging: boolean
+}
+
+// Columns on operations; each defaults to no requirement
+export interface OperationRequirements {
+  min_cpu_cores: number
+  min_memory_mb: number
+  min_performance_score: number
+  requires_charging: boolean
+}
+
+export function deviceCapabilities(
+  info: Pick<DeviceInfo, "cpu_cores" | "total_memory_gb" | "performance_score" | "is_charging">,
+  limits: Pick<ResourceLimits, "max_cpu_percent" | "max_memory_mb">,
+  stats?: Pick<RealTimeStats, "is_charging">,
+): DeviceCapabilities {
+  return {
+    cpu_cores: Math.round(info.cpu_cores * limits.max_cpu_percent) / 100,
+    memory_mb: Math.floor(Math.min(info.total_memory_gb * 1024, limits.max_memory_mb)),
+    performance_score: Math.round(info.performance_score),
+    is_charging: stats?.is_charging ?? info.is_charging ?? true,
+  }
+}
+
+// Why this device is not offered an operation's units; empty when it qualifies.
+// Mirrors the filter in claim_work_unit so the dashboard can explain it.
+export function unmetRequirements(
+  requirements: Partial<OperationRequirements>,
+  capabilities: DeviceCapabilities,
+): string[] {
+  const reasons: string[] = []
+
+  const minCores = requirements.min_cpu_cores ?? 0
+  if (capabilities.cpu_cores < minCores) {
+    reasons.push(`Needs ${minCores} CPU cores; your CPU limit allows ${capabilities.cpu_cores}`)
+  }
+
+  const minMemory = requirements.min_memory_mb ?? 0
+  if (capabilities.memory_mb < minMemory) {
+    reasons.push(`Needs ${minMemory} MB of memory; this device offers ${capabilities.memory_mb} MB`)
+  }
+
+  const minScore = requirements.min_performance_score ?? 0
+  if (capabilities.performance_score < minScore) {
+    reasons.push(`Needs a performance score of ${minScore}; this device scores ${capabilities.performance_score}`)
+  }
+
+  if (requirements.requires_charging && !capabilities.is_charging) {
+    reasons.push("Only runs while the device is charging")
+  }
+
+  return reasons
+}
+
+// Short labels for the requirements an operation sets, for listings
+export function describeRequirements(requirements: Partial<OperationRequirements>): string[] {
+  const labels: string[] = []
+  if (requirements.min_cpu_cores) labels.push(`${requirements.min_cpu_cores} cores`)
+  if (requirements.min_memory_mb) labels.push(`${requirements.min_memory_mb} MB`)
+  if (requirements.min_performance_score) labels.push(`score ${requirements.min_performance_score}`)
+  if (requirements.requires_charging) labels.push("charging")
+  return labels
+}
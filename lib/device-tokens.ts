@@ -0,0 +1,47 @@
+// Server-only helpers for exchanging headless device tokens for Supabase access tokens
+import { createHash, createHmac } from "crypto"
+
+// Access tokens are short-lived; the contributor exchanges its device token again before expiry
+export const DEVICE_ACCESS_TOKEN_TTL_SECONDS = 60 * 60
+
+export interface DeviceSession {
+  access_token: string
+  // Unix seconds
+  expires_at: number
+  user_id: string
+  device_id: string
+}
+
+export function hashDeviceToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_")
+}
+
+// HS256 JWT accepted by PostgREST as the given user, so auth.uid() and RLS apply unchanged
+export function signDeviceAccessToken(userId: string, deviceId: string, secret: string): DeviceSession {
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const expiresAt = issuedAt + DEVICE_ACCESS_TOKEN_TTL_SECONDS
+
+  const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }))
+  const payload = base64Url(
+    JSON.stringify({
+      sub: userId,
+      aud: "authenticated",
+      role: "authenticated",
+      iat: issuedAt,
+      exp: expiresAt,
+      app_metadata: { device_id: deviceId, provider: "device_token" },
+    }),
+  )
+  const signature = base64Url(createHmac("sha256", secret).update(`${header}.${payload}`).digest())
+
+  return {
+    access_token: `${header}.${payload}.${signature}`,
+    expires_at: expiresAt,
+    user_id: userId,
+    device_id: deviceId,
+  }
+}
@@ -0,0 +1,52 @@
+// Checkpoints as JSON files, for contributors running outside a browser
+import { promises as fs } from "fs"
+import path from "path"
+import type { CheckpointStore, TaskCheckpoint } from "./task-checkpoints"
+
+export function createFileCheckpointStore(directory: string): CheckpointStore {
+  const fileFor = (taskId: string) => path.join(directory, `${encodeURIComponent(taskId)}.json`)
+
+  return {
+    put: async (checkpoint) => {
+      await fs.mkdir(directory, { recursive: true })
+      // Write then rename so a crash mid-write never leaves a truncated checkpoint
+      const target = fileFor(checkpoint.task_id)
+      const temporary = `${target}.tmp`
+      await fs.writeFile(temporary, JSON.stringify(checkpoint))
+      await fs.rename(temporary, target)
+    },
+
+    get: async (taskId) => {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(taskId), "utf8")) as TaskCheckpoint
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null
+        throw error
+      }
+    },
+
+    list: async () => {
+      let names: string[]
+      try {
+        names = await fs.readdir(directory)
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return []
+        throw error
+      }
+
+      const checkpoints: TaskCheckpoint[] = []
+      for (const name of names.filter((entry) => entry.endsWith(".json"))) {
+        try {
+          checkpoints.push(JSON.parse(await fs.readFile(path.join(directory, name), "utf8")))
+        } catch (error) {
+          console.error(`[v0] Skipping unreadable checkpoint ${name}:`, error)
+        }
+      }
+      return checkpoints
+    },
+
+    delete: async (taskId) => {
+      await fs.rm(fileFor(taskId), { force: true })
+    },
+  }
+}
@@ -23,6 +23,15 @@ export interface ResourceLimits {
   max_battery_drain_percent: number
 }
 
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
+  max_cpu_percent: 25,
+  max_memory_mb: 512,
+  only_when_charging: true,
+  only_when_idle: false,
+  temperature_threshold: 75,
+  max_battery_drain_percent: 10,
+}
+
 export interface RealTimeStats {
   cpu_usage: number
   memory_usage: number
@@ -40,7 +49,69 @@ export interface RealTimeStats {
   }
 }
 
-export class HardwareMonitor {
+// What ResourceManager needs from a device's stats source (browser or Node)
+export interface ResourceMonitor {
+  startMonitoring(intervalMs?: number): void
+  stopMonitoring(): void
+  onStatsUpdate(callback: (stats: RealTimeStats) => void): void
+  getRealTimeStats(): Promise<RealTimeStats>
+  canContribute(stats: RealTimeStats): boolean
+  updateLimits(limits: Partial<ResourceLimits>): void
+  getLimits(): ResourceLimits
+  detectEnhancedHardware(): Promise<DeviceInfo>
+}
+
+// 0-100 score from core count, memory and form factor, shared by every monitor
+export function performanceScoreFor(cores: number, memoryMB: number, deviceType: DeviceInfo["device_type"]): number {
+  let score = 100
+
+  // CPU cores factor
+  score += Math.min(20, (cores - 4) * 5)
+
+  // Memory factor
+  score += Math.min(20, (memoryMB - 4096) / 1024 * 10)
+
+  // Device type factor
+  if (deviceType === 'desktop') score += 10
+  else if (deviceType === 'tablet') score += 5
+
+  return Math.min(100, Math.max(0, score))
+}
+
+// Battery, idle, temperature, CPU and memory rules shared by every monitor
+export function isWithinResourceLimits(limits: ResourceLimits, stats: RealTimeStats, totalMemoryMB: number): boolean {
+  // Battery check
+  if (limits.only_when_charging && !stats.is_charging) {
+    return false
+  }
+
+  if (stats.battery_level && stats.battery_level < 20) {
+    return false
+  }
+
+  // Idle check
+  if (limits.only_when_idle && !stats.is_idle) {
+    return false
+  }
+
+  // Temperature check
+  if (stats.temperature && stats.temperature > limits.temperature_threshold) {
+    return false
+  }
+
+  // Resource usage check
+  if (stats.cpu_usage > limits.max_cpu_percent) {
+    return false
+  }
+
+  if (stats.memory_usage > (limits.max_memory_mb / totalMemoryMB) * 100) {
+    return false
+  }
+
+  return true
+}
+
+export class HardwareMonitor implements ResourceMonitor {
   private resourceLimits: ResourceLimits
   private monitoringInterval: NodeJS.Timeout | null = null
   private lastActivity: number = Date.now()
@@ -423,41 +494,15 @@ export class HardwareMonitor {
   private isMonitoring = false
 
   public canContribute(stats: RealTimeStats): boolean {
-    // Check if device can contribute based on current conditions
-    
-    // Battery check
-    if (this.resourceLimits.only_when_charging && !stats.is_charging) {
+    if (!isWithinResourceLimits(this.resourceLimits, stats, this.getTotalMemoryMB())) {
       return false
     }
-    
-    if (stats.battery_level && stats.battery_level < 20) {
-      return false
-    }
-    
-    // Idle check
-    if (this.resourceLimits.only_when_idle && !stats.is_idle) {
-      return false
-    }
-    
-    // Temperature check
-    if (stats.temperature && stats.temperature > this.resourceLimits.temperature_threshold) {
-      return false
-    }
-    
-    // Resource usage check
-    if (stats.cpu_usage > this.resourceLimits.max_cpu_percent) {
-      return false
-    }
-    
-    if (stats.memory_usage > (this.resourceLimits.max_memory_mb / this.getTotalMemoryMB() * 100)) {
-      return false
-    }
-    
+
     // Performance check
     if (stats.performance_metrics.fps < 30) {
       return false
     }
-    
+
     return true
   }
 
@@ -602,23 +647,7 @@ export class HardwareMonitor {
   }
 
   private calculatePerformanceScore(): number {
-    // Calculate a performance score based on various metrics
-    let score = 100
-    
-    // CPU cores factor
-    const cores = navigator.hardwareConcurrency || 4
-    score += Math.min(20, (cores - 4) * 5)
-    
-    // Memory factor
-    const memory = this.getTotalMemoryMB()
-    score += Math.min(20, (memory - 4096) / 1024 * 10)
-    
-    // Device type factor
-    const deviceType = this.getDeviceType()
-    if (deviceType === 'desktop') score += 10
-    else if (deviceType === 'tablet') score += 5
-    
-    return Math.min(100, Math.max(0, score))
+    return performanceScoreFor(navigator.hardwareConcurrency || 4, this.getTotalMemoryMB(), this.getDeviceType())
   }
 }
 
@@ -0,0 +1,79 @@
+// Hash functions available to task types: SHA family via WebCrypto, the rest via hash-wasm
+import { createBLAKE2b, createBLAKE2s, createBLAKE3, createKeccak, type IHasher } from "hash-wasm"
+
+export const HASH_ALGORITHMS = ["sha1", "sha256", "sha384", "sha512", "blake2b", "blake2s", "blake3", "keccak256", "keccak512"] as const
+
+export type HashAlgorithm = (typeof HASH_ALGORITHMS)[number]
+
+const WEBCRYPTO_ALGORITHMS: Partial<Record<HashAlgorithm, string>> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+}
+
+const WASM_HASHERS: Partial<Record<HashAlgorithm, () => Promise<IHasher>>> = {
+  blake2b: () => createBLAKE2b(512),
+  blake2s: () => createBLAKE2s(256),
+  blake3: () => createBLAKE3(256),
+  keccak256: () => createKeccak(256),
+  keccak512: () => createKeccak(512),
+}
+
+// Digest size in hex characters
+export const HASH_HEX_LENGTHS: Record<HashAlgorithm, number> = {
+  sha1: 40,
+  sha256: 64,
+  sha384: 96,
+  sha512: 128,
+  blake2b: 128,
+  blake2s: 64,
+  blake3: 64,
+  keccak256: 64,
+  keccak512: 128,
+}
+
+export class UnsupportedHashAlgorithmError extends Error {
+  constructor(public algorithm: string) {
+    super(`Unsupported hash algorithm: ${algorithm} (expected one of ${HASH_ALGORITHMS.join(", ")})`)
+    this.name = "UnsupportedHashAlgorithmError"
+  }
+}
+
+// One WASM instance per algorithm; init/update/digest run synchronously, so calls cannot interleave
+const hashers = new Map<HashAlgorithm, Promise<IHasher>>()
+
+// Accepts spellings such as "SHA-256", "sha_512" or "Keccak-256"
+export function normalizeHashAlgorithm(name: string): string {
+  return name.toLowerCase().replace(/[-_\s]/g, "")
+}
+
+export function isHashAlgorithm(name: string): name is HashAlgorithm {
+  return (HASH_ALGORITHMS as readonly string[]).includes(name)
+}
+
+export function resolveHashAlgorithm(name: string): HashAlgorithm {
+  const normalized = normalizeHashAlgorithm(name)
+  if (!isHashAlgorithm(normalized)) {
+    throw new UnsupportedHashAlgorithmError(name)
+  }
+  return normalized
+}
+
+export async function hashHex(data: string | Uint8Array, name: string): Promise<string> {
+  const algorithm = resolveHashAlgorithm(name)
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+
+  const webCryptoName = WEBCRYPTO_ALGORITHMS[algorithm]
+  if (webCryptoName) {
+    const hashBuffer = await crypto.subtle.digest(webCryptoName, bytes as BufferSource)
+    return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("")
+  }
+
+  let hasher = hashers.get(algorithm)
+  if (!hasher) {
+    hasher = WASM_HASHERS[algorithm]!()
+    hashers.set(algorithm, hasher)
+  }
+  return (await hasher).init().update(bytes).digest("hex")
+}
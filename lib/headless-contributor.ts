@@ -0,0 +1,168 @@
+// Long-lived contributor for servers: the browser BackgroundWorker wired to Node resources
+import os from "os"
+import { createClient as createSupabaseClient, type SupabaseClient } from "@supabase/supabase-js"
+import { BackgroundWorker } from "./background-worker"
+import { createFileCheckpointStore } from "./file-checkpoint-store"
+import { DEFAULT_RESOURCE_LIMITS, type ResourceLimits } from "./hardware-detection"
+import { NodeHardwareMonitor } from "./node-hardware-monitor"
+import { setClientOverride } from "./supabase/client"
+import { setCheckpointStore } from "./task-checkpoints"
+import type { DeviceSession } from "./device-tokens"
+import "./task-types"
+
+export interface HeadlessContributorConfig {
+  // Base URL of the DedSecCompute app that exchanges device tokens
+  appUrl: string
+  supabaseUrl: string
+  supabaseAnonKey: string
+  deviceToken: string
+  checkpointDir: string
+  // Override the limits stored for this device
+  limits?: Partial<ResourceLimits>
+}
+
+// Exchange the device token again this long before the access token expires
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+// How often a paused contributor checks whether the safety limits allow it to resume
+const SUPERVISE_INTERVAL_MS = 60 * 1000
+
+export class DeviceTokenError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = "DeviceTokenError"
+  }
+}
+
+export class HeadlessContributor {
+  private session: DeviceSession | null = null
+  private pendingExchange: Promise<DeviceSession> | null = null
+  private worker: BackgroundWorker | null = null
+  private superviseInterval: NodeJS.Timeout | null = null
+  private stopping = false
+
+  constructor(private config: HeadlessContributorConfig) {}
+
+  public async start(): Promise<void> {
+    const session = await this.exchangeToken()
+    console.log(`[v0] Authenticated headless device ${session.device_id}`)
+
+    // Every lib module that calls createClient() now acts as this device's user
+    const supabase = createSupabaseClient(this.config.supabaseUrl, this.config.supabaseAnonKey, {
+      accessToken: () => this.getAccessToken(),
+    })
+    setClientOverride(supabase)
+    setCheckpointStore(createFileCheckpointStore(this.config.checkpointDir))
+
+    const limits: ResourceLimits = {
+      ...DEFAULT_RESOURCE_LIMITS,
+      ...(await this.loadStoredLimits(supabase, session)),
+      ...this.config.limits,
+    }
+    console.log("[v0] Resource limits:", limits)
+
+    this.worker = new BackgroundWorker(session.user_id, {
+      deviceId: session.device_id,
+      limits,
+      createMonitor: (workerLimits) => new NodeHardwareMonitor(workerLimits),
+      coordinator: {
+        cpuCores: os.cpus().length,
+        memoryGb: Math.round(os.totalmem() / 1024 ** 3),
+      },
+    })
+
+    await this.tryStartWorker()
+    this.superviseInterval = setInterval(() => this.supervise(), SUPERVISE_INTERVAL_MS)
+  }
+
+  // Checkpoints running tasks so the next start resumes them
+  public async stop(): Promise<void> {
+    this.stopping = true
+    if (this.superviseInterval) {
+      clearInterval(this.superviseInterval)
+      this.superviseInterval = null
+    }
+    await this.worker?.stop({ checkpoint: true })
+    console.log("[v0] Headless contributor stopped")
+  }
+
+  // Safety limits may refuse or auto-pause contribution; keep retrying while the process lives
+  private async supervise(): Promise<void> {
+    if (this.stopping || !this.worker) return
+
+    const status = this.worker.getStatus()
+    if (status.isRunning && status.resourceContribution) return
+
+    if (status.isRunning) {
+      await this.worker.stop({ checkpoint: true })
+    }
+    await this.tryStartWorker()
+  }
+
+  private async tryStartWorker(): Promise<void> {
+    try {
+      await this.worker!.start()
+    } catch (error) {
+      console.log(
+        `[v0] Contribution not available yet, retrying in ${SUPERVISE_INTERVAL_MS / 1000}s:`,
+        error instanceof Error ? error.message : error,
+      )
+    }
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (!this.session || this.session.expires_at * 1000 - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      this.session = await this.exchangeToken()
+    }
+    return this.session.access_token
+  }
+
+  // Concurrent callers share one exchange
+  private exchangeToken(): Promise<DeviceSession> {
+    if (!this.pendingExchange) {
+      this.pendingExchange = this.requestSession().finally(() => {
+        this.pendingExchange = null
+      })
+    }
+    return this.pendingExchange
+  }
+
+  private async requestSession(): Promise<DeviceSession> {
+    const response = await fetch(new URL("/api/devices/session", this.config.appUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: this.config.deviceToken }),
+    })
+
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new DeviceTokenError(response.status, body.error || `Device token exchange failed (${response.status})`)
+    }
+
+    this.session = body as DeviceSession
+    return this.session
+  }
+
+  // Limits saved for this device from the dashboard, if any
+  private async loadStoredLimits(supabase: SupabaseClient, session: DeviceSession): Promise<Partial<ResourceLimits>> {
+    const { data, error } = await supabase
+      .from("user_sessions")
+      .select("max_cpu_percent, max_memory_mb, only_when_charging, only_when_idle")
+      .eq("user_id", session.user_id)
+      .eq("device_id", session.device_id)
+      .maybeSingle()
+
+    if (error) {
+      console.error("[v0] Error loading stored resource limits:", error)
+      return {}
+    }
+    if (!data) return {}
+
+    const stored: Partial<ResourceLimits> = {}
+    if (data.max_cpu_percent != null) stored.max_cpu_percent = data.max_cpu_percent
+    if (data.max_memory_mb != null) stored.max_memory_mb = data.max_memory_mb
+    if (data.only_when_charging != null) stored.only_when_charging = data.only_when_charging
+    if (data.only_when_idle != null) stored.only_when_idle = data.only_when_idle
+    return stored
+  }
+}
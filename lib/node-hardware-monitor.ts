@@ -0,0 +1,192 @@
+// Resource monitoring for headless Node contributors, read from `os` and /sys instead of browser APIs
+import os from "os"
+import { promises as fs } from "fs"
+import {
+  isWithinResourceLimits,
+  performanceScoreFor,
+  type DeviceInfo,
+  type ResourceLimits,
+  type RealTimeStats,
+  type ResourceMonitor,
+} from "./hardware-detection"
+
+// Other processes using less CPU than this count as an idle machine
+const IDLE_CPU_PERCENT = 10
+
+interface CpuSample {
+  busy: number
+  total: number
+  // This process's user + system time in microseconds
+  ownMicros: number
+  at: number
+}
+
+function sampleCpu(): CpuSample {
+  let busy = 0
+  let total = 0
+  for (const cpu of os.cpus()) {
+    const { user, nice, sys, idle, irq } = cpu.times
+    busy += user + nice + sys + irq
+    total += user + nice + sys + idle + irq
+  }
+  const own = process.cpuUsage()
+  return { busy, total, ownMicros: own.user + own.system, at: Date.now() }
+}
+
+async function readNumber(path: string): Promise<number | null> {
+  try {
+    const value = Number.parseFloat(await fs.readFile(path, "utf8"))
+    return Number.isFinite(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(path, "utf8")).trim()
+  } catch {
+    return null
+  }
+}
+
+export class NodeHardwareMonitor implements ResourceMonitor {
+  private resourceLimits: ResourceLimits
+  private monitoringInterval: NodeJS.Timeout | null = null
+  private callbacks: ((stats: RealTimeStats) => void)[] = []
+  private lastSample = sampleCpu()
+
+  constructor(limits: ResourceLimits) {
+    this.resourceLimits = limits
+  }
+
+  public startMonitoring(intervalMs = 5000) {
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval)
+    }
+
+    this.monitoringInterval = setInterval(async () => {
+      const stats = await this.getRealTimeStats()
+      this.callbacks.forEach((callback) => callback(stats))
+    }, intervalMs)
+  }
+
+  public stopMonitoring() {
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval)
+      this.monitoringInterval = null
+    }
+  }
+
+  public onStatsUpdate(callback: (stats: RealTimeStats) => void) {
+    this.callbacks.push(callback)
+  }
+
+  public async getRealTimeStats(): Promise<RealTimeStats> {
+    const cpuUsage = this.measureOtherCpuUsage()
+    const [battery, temperature, responseTime] = await Promise.all([
+      this.readBattery(),
+      this.readTemperature(),
+      this.measureEventLoopLag(),
+    ])
+
+    return {
+      cpu_usage: cpuUsage,
+      memory_usage: (process.memoryUsage().rss / os.totalmem()) * 100,
+      battery_level: battery?.level,
+      temperature: temperature ?? undefined,
+      is_charging: battery ? battery.charging : true,
+      is_idle: cpuUsage < IDLE_CPU_PERCENT,
+      timestamp: Date.now(),
+      performance_metrics: {
+        fps: 0,
+        response_time: responseTime,
+        load_time: 0,
+      },
+    }
+  }
+
+  // There is no frame rate to protect on a server, so only the shared limits apply
+  public canContribute(stats: RealTimeStats): boolean {
+    return isWithinResourceLimits(this.resourceLimits, stats, os.totalmem() / (1024 * 1024))
+  }
+
+  public updateLimits(limits: Partial<ResourceLimits>) {
+    this.resourceLimits = { ...this.resourceLimits, ...limits }
+  }
+
+  public getLimits(): ResourceLimits {
+    return { ...this.resourceLimits }
+  }
+
+  // Servers have no screen or browser; everything else mirrors what HardwareMonitor reports
+  public async detectEnhancedHardware(): Promise<DeviceInfo> {
+    const cores = os.cpus().length
+    const memoryMB = os.totalmem() / (1024 * 1024)
+    const battery = await this.readBattery()
+
+    return {
+      cpu_cores: cores,
+      total_memory_gb: memoryMB / 1024,
+      architecture: os.arch(),
+      platform: os.platform(),
+      user_agent: `node/${process.versions.node}`,
+      screen_resolution: "headless",
+      battery_level: battery?.level,
+      is_charging: battery ? battery.charging : true,
+      device_type: "desktop",
+      performance_score: performanceScoreFor(cores, memoryMB, "desktop"),
+    }
+  }
+
+  // Machine-wide CPU use since the last sample, minus this process, so contributing never pauses itself
+  private measureOtherCpuUsage(): number {
+    const sample = sampleCpu()
+    const previous = this.lastSample
+    this.lastSample = sample
+
+    const totalTicks = sample.total - previous.total
+    const wallMicros = (sample.at - previous.at) * 1000
+    if (totalTicks <= 0 || wallMicros <= 0) return 0
+
+    const machinePercent = ((sample.busy - previous.busy) / totalTicks) * 100
+    const ownPercent = ((sample.ownMicros - previous.ownMicros) / (wallMicros * os.cpus().length)) * 100
+    return Math.min(100, Math.max(0, machinePercent - ownPercent))
+  }
+
+  // Hottest thermal zone in °C, when the kernel exposes any
+  private async readTemperature(): Promise<number | null> {
+    let zones: string[]
+    try {
+      zones = (await fs.readdir("/sys/class/thermal")).filter((name) => name.startsWith("thermal_zone"))
+    } catch {
+      return null
+    }
+
+    const readings = await Promise.all(zones.map((zone) => readNumber(`/sys/class/thermal/${zone}/temp`)))
+    const celsius = readings.filter((value): value is number => value !== null).map((value) => value / 1000)
+    return celsius.length > 0 ? Math.max(...celsius) : null
+  }
+
+  // null on machines without a battery, which run on mains power
+  private async readBattery(): Promise<{ level: number; charging: boolean } | null> {
+    let supplies: string[]
+    try {
+      supplies = (await fs.readdir("/sys/class/power_supply")).filter((name) => name.startsWith("BAT"))
+    } catch {
+      return null
+    }
+    if (supplies.length === 0) return null
+
+    const level = await readNumber(`/sys/class/power_supply/${supplies[0]}/capacity`)
+    const status = await readText(`/sys/class/power_supply/${supplies[0]}/status`)
+    if (level === null) return null
+    return { level, charging: status !== "Discharging" }
+  }
+
+  private async measureEventLoopLag(): Promise<number> {
+    const start = performance.now()
+    await new Promise((resolve) => setTimeout(resolve, 1))
+    return performance.now() - start
+  }
+}
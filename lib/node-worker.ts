@@ -0,0 +1,37 @@
+// worker_threads for headless contributors, loaded at runtime so browser bundles never include it
+import type { Worker } from "worker_threads"
+
+export interface NodeThreads {
+  Worker: typeof Worker
+  fileURLToPath: (url: URL) => string
+}
+
+let loading: Promise<NodeThreads | null> | null = null
+
+export function isNodeRuntime(): boolean {
+  return typeof process !== "undefined" && !!process.versions?.node
+}
+
+// Null outside Node, or where worker_threads cannot be loaded
+export function loadWorkerThreads(): Promise<NodeThreads | null> {
+  if (!loading) {
+    loading = isNodeRuntime() ? importThreads() : Promise.resolve(null)
+  }
+  return loading
+}
+
+async function importThreads(): Promise<NodeThreads | null> {
+  try {
+    const threads = await import(/* webpackIgnore: true */ "worker_threads")
+    const url = await import(/* webpackIgnore: true */ "url")
+    return { Worker: threads.Worker, fileURLToPath: url.fileURLToPath }
+  } catch {
+    return null
+  }
+}
+
+// tsx's loader does not reach worker threads, so the worker registers it before loading its entrypoint
+export function startNodeWorker(threads: NodeThreads, entry: URL): Worker {
+  const path = threads.fileURLToPath(entry)
+  return new threads.Worker(`require("tsx/cjs/api").register(); require(${JSON.stringify(path)})`, { eval: true })
+}
@@ -1,5 +1,7 @@
-import { HardwareMonitor, type ResourceLimits, type RealTimeStats } from "./hardware-detection"
+import { HardwareMonitor, type DeviceInfo, type ResourceLimits, type RealTimeStats, type ResourceMonitor } from "./hardware-detection"
 import { createClient } from "./supabase/client"
+import { deviceCapabilities, type DeviceCapabilities } from "./device-capabilities"
+import type { DeviceCalibration } from "./task-calibration"
 
 export interface ContributionSession {
   id: string
@@ -14,13 +16,20 @@ export interface ContributionSession {
 }
 
 export class ResourceManager {
-  private hardwareMonitor: HardwareMonitor
+  private hardwareMonitor: ResourceMonitor
   private isContributing = false
   private currentSession: ContributionSession | null = null
   private supabase = createClient()
-
-  constructor(limits: ResourceLimits) {
-    this.hardwareMonitor = new HardwareMonitor(limits)
+  private autoPauseCallbacks: (() => void | Promise<void>)[] = []
+  // Persisted with every session update so the live stats do not overwrite it
+  private calibration: DeviceCalibration | null = null
+  // Hardware is detected once; the latest stats supply the live charging state
+  private deviceInfo: DeviceInfo | null = null
+  private lastStats: RealTimeStats | null = null
+
+  // Browsers use HardwareMonitor; headless contributors pass a NodeHardwareMonitor
+  constructor(limits: ResourceLimits, monitor: ResourceMonitor = new HardwareMonitor(limits)) {
+    this.hardwareMonitor = monitor
     this.setupMonitoring()
   }
 
@@ -86,6 +95,8 @@ export class ResourceManager {
   }
 
   private async handleStatsUpdate(stats: RealTimeStats) {
+    this.lastStats = stats
+
     if (!this.isContributing || !this.currentSession) {
       return
     }
@@ -93,6 +104,7 @@ export class ResourceManager {
     // Check if we should pause contribution due to safety limits
     if (!this.hardwareMonitor.canContribute(stats)) {
       console.log("[v0] Auto-pausing contribution due to safety limits")
+      await Promise.all(this.autoPauseCallbacks.map((callback) => callback()))
       await this.stopContribution()
       return
     }
@@ -129,6 +141,7 @@ export class ResourceManager {
             temperature: stats.temperature,
             is_charging: stats.is_charging,
             timestamp: stats.timestamp,
+            ...(this.calibration ? { calibration: this.calibration } : {}),
           },
           is_contributing: isContributing,
           battery_level: stats.battery_level,
@@ -174,10 +187,27 @@ export class ResourceManager {
     }
   }
 
+  public setCalibration(calibration: DeviceCalibration | null) {
+    this.calibration = calibration
+  }
+
+  public onAutoPause(callback: () => void | Promise<void>) {
+    this.autoPauseCallbacks.push(callback)
+  }
+
   public updateResourceLimits(limits: Partial<ResourceLimits>) {
     this.hardwareMonitor.updateLimits(limits)
   }
 
+  // What claim_work_unit matches operation requirements against, under the current limits
+  public async getDeviceCapabilities(): Promise<DeviceCapabilities> {
+    if (!this.deviceInfo) {
+      this.deviceInfo = await this.hardwareMonitor.detectEnhancedHardware()
+    }
+    const stats = this.lastStats ?? (await this.hardwareMonitor.getRealTimeStats())
+    return deviceCapabilities(this.deviceInfo, this.hardwareMonitor.getLimits(), stats)
+  }
+
   public getResourceLimits(): ResourceLimits {
     return this.hardwareMonitor.getLimits()
   }
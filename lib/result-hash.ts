@@ -0,0 +1,43 @@
+// Text Postgres prints for a result stored as JSONB; result_hash() hashes exactly this
+const encoder = new TextEncoder()
+
+// JSONB orders object keys by UTF-8 length, then bytewise
+function compareKeys(a: string, b: string): number {
+  const x = encoder.encode(a)
+  const y = encoder.encode(b)
+  if (x.length !== y.length) return x.length - y.length
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] !== y[i]) return x[i] - y[i]
+  }
+  return 0
+}
+
+// NUMERIC never prints an exponent: 1.5e-7 comes back as 0.00000015 and 1e+21 in full
+function plainDecimal(text: string): string {
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text)
+  if (!match) return text
+
+  const [, sign, whole, fraction = "", exponent] = match
+  const digits = whole + fraction
+  const point = whole.length + Number(exponent)
+  if (point <= 0) return `${sign}0.${"0".repeat(-point)}${digits}`
+  if (point >= digits.length) return sign + digits + "0".repeat(point - digits.length)
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`
+}
+
+function jsonbText(value: unknown): string {
+  if (value === null) return "null"
+  if (typeof value === "number") return plainDecimal(JSON.stringify(value))
+  if (typeof value !== "object") return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(jsonbText).join(", ")}]`
+
+  const entries = Object.keys(value)
+    .sort(compareKeys)
+    .map((key) => `${JSON.stringify(key)}: ${jsonbText((value as Record<string, unknown>)[key])}`)
+  return `{${entries.join(", ")}}`
+}
+
+// Round-trips through JSON first so undefined fields and toJSON() behave as they do on submission
+export function canonicalResultText(result: any): string {
+  return jsonbText(JSON.parse(JSON.stringify(result)))
+}
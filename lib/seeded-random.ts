@@ -0,0 +1,34 @@
+// Deterministic pseudo-random number generation for reproducible task inputs
+export type RandomSource = () => number
+
+// FNV-1a 32-bit hash used to fold an arbitrary seed string into PRNG state
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Mulberry32: small, fast and identical across JS engines
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(String(seed))
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Explicit parameters.seed wins; otherwise the operation's task hash keeps every worker in sync
+export function resolveTaskSeed(task: { hash: string; parameters?: any }): string {
+  const seed = task.parameters?.seed
+  if (seed !== undefined && seed !== null && seed !== "") {
+    return String(seed)
+  }
+  return task.hash
+}
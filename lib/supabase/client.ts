@@ -1,5 +1,14 @@
 import { createBrowserClient } from "@supabase/ssr"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+// Set by processes without browser cookies, e.g. the headless contributor authenticating with a device token
+let clientOverride: SupabaseClient | null = null
+
+export function setClientOverride(client: SupabaseClient | null) {
+  clientOverride = client
+}
 
 export function createClient() {
+  if (clientOverride) return clientOverride
   return createBrowserClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!)
 }
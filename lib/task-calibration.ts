@@ -0,0 +1,84 @@
+// Per-device throughput of each task type, used to size work units to a wall-clock target
+import type { ComputeTask } from "./compute-engine"
+import type { ComputeWorkerPool } from "./worker-pool"
+import { hasTaskType, getTaskType, listTaskTypes, type TaskTypeId } from "./task-registry"
+
+export interface TaskBenchmark {
+  ops_per_second: number
+  operations: number
+  duration_ms: number
+}
+
+// Stored as user_sessions.hardware_specs.calibration
+export interface DeviceCalibration {
+  version: number
+  measured_at: string
+  benchmarks: Record<TaskTypeId, TaskBenchmark>
+}
+
+// Bump when benchmark parameters change so older measurements are re-run
+export const CALIBRATION_VERSION = 1
+
+// How long a unit should take on the device that runs it
+export const TARGET_UNIT_DURATION_MS = 2 * 60 * 1000
+
+// Browsers, thermals and power profiles change; re-measure weekly
+const CALIBRATION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+export function isCalibrationCurrent(calibration: DeviceCalibration | null | undefined): calibration is DeviceCalibration {
+  if (!calibration || calibration.version !== CALIBRATION_VERSION || !calibration.benchmarks) return false
+  return Date.now() - new Date(calibration.measured_at).getTime() < CALIBRATION_MAX_AGE_MS
+}
+
+// Runs each type's fixed benchmark instance one at a time so they do not compete for cores
+export async function runBenchmarkSuite(pool: ComputeWorkerPool): Promise<DeviceCalibration> {
+  const benchmarks: Record<TaskTypeId, TaskBenchmark> = {}
+
+  for (const definition of listTaskTypes()) {
+    if (!definition.benchmarkParameters) continue
+
+    const task: ComputeTask = {
+      id: `benchmark-${definition.type}`,
+      operation_id: "benchmark",
+      type: definition.type,
+      parameters: definition.benchmarkParameters,
+      hash: "benchmark",
+      signature: "benchmark",
+      pow_difficulty: 0,
+      priority: 0,
+      estimated_duration: 0,
+      created_at: new Date().toISOString(),
+    }
+
+    try {
+      const result = await pool.executeTask(task)
+      const operations = Number(result.result_data?.operations_performed) || 0
+      if (operations > 0 && result.computation_time > 0) {
+        benchmarks[definition.type] = {
+          ops_per_second: (operations * 1000) / result.computation_time,
+          operations,
+          duration_ms: result.computation_time,
+        }
+      }
+    } catch (error) {
+      console.error(`[v0] Benchmark failed for ${definition.type}:`, error)
+    }
+  }
+
+  return { version: CALIBRATION_VERSION, measured_at: new Date().toISOString(), benchmarks }
+}
+
+// null when the type was not benchmarked or cannot predict its own cost
+export function estimateDurationMs(calibration: DeviceCalibration | null, type: TaskTypeId, parameters: any): number | null {
+  const benchmark = calibration?.benchmarks[type]
+  if (!benchmark || !hasTaskType(type)) return null
+
+  const estimate = getTaskType(type).estimateOperations?.(parameters)
+  if (estimate === undefined || !Number.isFinite(estimate)) return null
+  return Math.round((estimate * 1000) / benchmark.ops_per_second)
+}
+
+export function operationsForDuration(calibration: DeviceCalibration | null, type: TaskTypeId, durationMs: number): number | null {
+  const benchmark = calibration?.benchmarks[type]
+  return benchmark ? Math.floor((benchmark.ops_per_second * durationMs) / 1000) : null
+}
@@ -0,0 +1,122 @@
+// Persistence for task checkpoints so long-running work survives reloads: IndexedDB in
+// browsers, or any CheckpointStore installed with setCheckpointStore (e.g. files in Node)
+import type { ComputeTask } from "./compute-engine"
+
+export interface TaskCheckpoint {
+  task_id: string
+  execution_id: string
+  user_id: string
+  device_id: string
+  task: ComputeTask
+  state: any
+  operations: number
+  updated_at: string
+}
+
+export interface CheckpointStore {
+  put: (checkpoint: TaskCheckpoint) => Promise<void>
+  get: (taskId: string) => Promise<TaskCheckpoint | null>
+  list: () => Promise<TaskCheckpoint[]>
+  delete: (taskId: string) => Promise<void>
+}
+
+const DB_NAME = "dedsec-compute"
+const DB_VERSION = 1
+const STORE_NAME = "checkpoints"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+let customStore: CheckpointStore | null = null
+
+export function setCheckpointStore(store: CheckpointStore | null): void {
+  customStore = store
+}
+
+export function isCheckpointStorageSupported(): boolean {
+  return customStore !== null || typeof indexedDB !== "undefined"
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "task_id" })
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const indexedDbStore: CheckpointStore = {
+  put: async (checkpoint) => {
+    await runRequest("readwrite", (store) => store.put(checkpoint))
+  },
+  get: async (taskId) => (await runRequest<TaskCheckpoint | undefined>("readonly", (store) => store.get(taskId))) ?? null,
+  list: () => runRequest<TaskCheckpoint[]>("readonly", (store) => store.getAll()),
+  delete: async (taskId) => {
+    await runRequest("readwrite", (store) => store.delete(taskId))
+  },
+}
+
+function activeStore(): CheckpointStore {
+  return customStore ?? indexedDbStore
+}
+
+export async function saveCheckpoint(checkpoint: TaskCheckpoint): Promise<void> {
+  if (!isCheckpointStorageSupported()) return
+  try {
+    await activeStore().put(checkpoint)
+  } catch (error) {
+    console.error("[v0] Error saving checkpoint:", error)
+  }
+}
+
+export async function loadCheckpoint(taskId: string): Promise<TaskCheckpoint | null> {
+  if (!isCheckpointStorageSupported()) return null
+  try {
+    return await activeStore().get(taskId)
+  } catch (error) {
+    console.error("[v0] Error loading checkpoint:", error)
+    return null
+  }
+}
+
+export async function listCheckpoints(userId: string, deviceId: string): Promise<TaskCheckpoint[]> {
+  if (!isCheckpointStorageSupported()) return []
+  try {
+    const all = await activeStore().list()
+    return all.filter((checkpoint) => checkpoint.user_id === userId && checkpoint.device_id === deviceId)
+  } catch (error) {
+    console.error("[v0] Error listing checkpoints:", error)
+    return []
+  }
+}
+
+export async function deleteCheckpoint(taskId: string): Promise<void> {
+  if (!isCheckpointStorageSupported()) return
+  try {
+    await activeStore().delete(taskId)
+  } catch (error) {
+    console.error("[v0] Error deleting checkpoint:", error)
+  }
+}
@@ -1,24 +1,119 @@
 import { createClient } from "./supabase/client"
-import { ComputeEngine, type ComputeTask, type TaskResult } from "./compute-engine"
+import { TaskCancelledError, type ComputeTask, type TaskResult } from "./compute-engine"
+import { ComputeWorkerPool, defaultPoolSize } from "./worker-pool"
+import { InvalidTaskParametersError, getTaskType, hasTaskType, resolveOperationTaskType, validateTaskParameters } from "./task-registry"
+import { deleteCheckpoint, listCheckpoints, saveCheckpoint, type TaskCheckpoint } from "./task-checkpoints"
+import type { TaskProgressEvent } from "./task-progress"
+import type { DeviceCapabilities } from "./device-capabilities"
+import type { ResourceLimits } from "./hardware-detection"
+import { WorkFeed } from "./work-feed"
+import {
+  TARGET_UNIT_DURATION_MS,
+  estimateDurationMs,
+  isCalibrationCurrent,
+  operationsForDuration,
+  runBenchmarkSuite,
+  type DeviceCalibration,
+} from "./task-calibration"
 
 export interface TaskQueue {
   pending_tasks: ComputeTask[]
   active_tasks: ComputeTask[]
   completed_tasks: string[]
+  // One entry per task the device may run at once; slots past the limit remain until their task finishes
+  slots: TaskSlot[]
 }
 
+export interface TaskSlot {
+  index: number
+  // null while the slot is free
+  task: ComputeTask | null
+  started_at: string | null
+}
+
+export interface TaskCoordinatorOptions {
+  // Sizes the worker pool and CPU budget and is reported in network metrics; browsers read navigator when omitted
+  cpuCores?: number
+  memoryGb?: number
+}
+
+// Progress events arrive several times a second; network metrics are sampled far less often
+const METRICS_INTERVAL_MS = 10000
+
+// Units within this factor of the target duration are run as they are rather than split
+const UNIT_SPLIT_SLACK = 1.5
+
+// Well inside the server's 10 minute lease so one missed renewal is harmless
+const LEASE_RENEW_INTERVAL_MS = 60 * 1000
+
+// How often to look for work while the realtime feed is down, or after a claim failed
+const POLL_INTERVAL_MS = 10000
+
+// Slow recheck while the feed is up: a lease running out changes no row, so nothing is announced
+const IDLE_RECHECK_MS = 2 * 60 * 1000
+
 export class TaskCoordinator {
-  private computeEngine: ComputeEngine
+  private workerPool: ComputeWorkerPool
   private supabase = createClient()
   private isActive = false
   private taskQueue: TaskQueue = {
     pending_tasks: [],
     active_tasks: [],
     completed_tasks: [],
+    slots: [{ index: 0, task: null, started_at: null }],
+  }
+  // Tasks kept in flight at once, derived from cores and the CPU and memory budget
+  private taskSlots = 1
+  private queueListeners = new Set<(queue: TaskQueue) => void>()
+  // Checkpoints restored on start, keyed by task id
+  private resumeCheckpoints = new Map<string, TaskCheckpoint>()
+  // Tasks interrupted by a pause keep their checkpoint instead of failing
+  private pausedTaskIds = new Set<string>()
+  // In-flight executions and the controllers that abort them
+  private runningTasks = new Map<string, { controller: AbortController; done: Promise<void> }>()
+  // Latest progress event of each in-flight task
+  private taskProgress = new Map<string, TaskProgressEvent>()
+  private progressListeners = new Set<(event: TaskProgressEvent) => void>()
+  private lastMetricsAt = 0
+  // Every running task's timer may renew the queued claims; they only need it once per interval
+  private claimsRenewedAt = 0
+  // This device's measured throughput per task type
+  private calibration: DeviceCalibration | null = null
+  // Reported with each claim so the server only offers units this device can run
+  private capabilityProvider: (() => Promise<DeviceCapabilities>) | null = null
+  // Announcements wake the coordination loop; it only polls while the feed is disconnected
+  private workFeed = new WorkFeed(this.supabase, {
+    onWorkAvailable: () => this.signalWork(),
+    onLeaseRevoked: (executionId, reason) => this.revokeLease(executionId, reason),
+    onConnectionChange: (connected) => {
+      this.feedConnected = connected
+      // Reconnecting may have missed announcements, and losing the feed means switching to polling
+      this.signalWork()
+    },
+  })
+  private feedConnected = false
+  // A failed claim is retried on the poll interval even while the feed is up
+  private claimFailed = false
+  // Set when work is announced while the loop is busy, so the next wait returns at once
+  private workSignalled = false
+  private wakeLoop: (() => void) | null = null
+
+  constructor(private options: TaskCoordinatorOptions = {}) {
+    this.workerPool = new ComputeWorkerPool(defaultPoolSize(options.cpuCores), options.cpuCores)
+  }
+
+  public setCapabilityProvider(provider: () => Promise<DeviceCapabilities>): void {
+    this.capabilityProvider = provider
   }
 
-  constructor() {
-    this.computeEngine = new ComputeEngine()
+  // Caps the CPU all running tasks use together, as a percentage of the whole device, and
+  // sizes how many tasks run at once. Extra slots fill straight away; when the limit drops,
+  // running tasks finish and their slots are not refilled.
+  public setResourceLimits(limits: Pick<ResourceLimits, "max_cpu_percent" | "max_memory_mb">): void {
+    this.workerPool.setCpuLimit(limits.max_cpu_percent)
+    this.taskSlots = this.workerPool.getTaskSlots(limits)
+    this.resizeSlots()
+    this.signalWork()
   }
 
   public async startCoordination(userId: string, deviceId: string): Promise<void> {
@@ -27,32 +122,153 @@ export class TaskCoordinator {
     this.isActive = true
     console.log("[v0] Task coordinator started")
 
+    // Pick up tasks interrupted by a reload before fetching new work
+    await this.restoreCheckpoints(userId, deviceId)
+
+    this.workFeed.open(deviceId)
+
     // Start the coordination loop
     this.coordinationLoop(userId, deviceId)
   }
 
   public async stopCoordination(): Promise<void> {
     this.isActive = false
-    this.computeEngine.stop()
+    this.signalWork()
+    await this.workFeed.close()
+    await this.releasePendingClaims()
+    await this.abortRunningTasks()
+    this.workerPool.terminate()
     console.log("[v0] Task coordinator stopped")
   }
 
+  // Stop executing but keep checkpoints so the next start resumes the same work
+  public async pauseCoordination(): Promise<void> {
+    if (!this.isActive) return
+
+    this.taskQueue.active_tasks.forEach((task) => this.pausedTaskIds.add(task.id))
+    this.isActive = false
+    this.signalWork()
+    await this.workFeed.close()
+    await this.releasePendingClaims()
+    await this.abortRunningTasks()
+    this.workerPool.terminate()
+    console.log("[v0] Task coordinator paused")
+  }
+
+  // Abort every in-flight task and wait until each has recorded its outcome
+  private async abortRunningTasks(): Promise<void> {
+    const running = Array.from(this.runningTasks.values())
+    running.forEach(({ controller }) => controller.abort())
+    await Promise.all(running.map(({ done }) => done.catch(() => undefined)))
+  }
+
+  private runTask(task: ComputeTask, userId: string, deviceId: string): Promise<void> {
+    const controller = new AbortController()
+    const slot = this.occupySlot(task)
+    const done = this.executeTask(task, userId, deviceId, controller.signal).finally(() => {
+      this.runningTasks.delete(task.id)
+      this.vacateSlot(slot)
+      // Refill the slot without waiting for an announcement
+      this.signalWork()
+    })
+    this.runningTasks.set(task.id, { controller, done })
+    return done
+  }
+
+  private hasFreeSlot(): boolean {
+    return this.runningTasks.size < this.taskSlots
+  }
+
+  private occupySlot(task: ComputeTask): TaskSlot {
+    const slot = this.taskQueue.slots.find((s) => !s.task && s.index < this.taskSlots)!
+    slot.task = task
+    slot.started_at = new Date().toISOString()
+    this.notifyQueueChange()
+    return slot
+  }
+
+  private vacateSlot(slot: TaskSlot): void {
+    slot.task = null
+    slot.started_at = null
+    this.resizeSlots()
+  }
+
+  // Keep a slot for every task allowed in flight, dropping free ones past the limit
+  private resizeSlots(): void {
+    const slots = this.taskQueue.slots
+    while (slots.length < this.taskSlots) {
+      slots.push({ index: slots.length, task: null, started_at: null })
+    }
+    while (slots.length > this.taskSlots && !slots[slots.length - 1].task) {
+      slots.pop()
+    }
+    this.notifyQueueChange()
+  }
+
+  private notifyQueueChange(): void {
+    const queue = this.getQueueStatus()
+    this.queueListeners.forEach((listener) => listener(queue))
+  }
+
+  // Reuse the throughput measured on an earlier run if it is still current
+  public async loadCalibration(userId: string, deviceId: string): Promise<DeviceCalibration | null> {
+    const { data: session, error } = await this.supabase
+      .from("user_sessions")
+      .select("hardware_specs")
+      .eq("user_id", userId)
+      .eq("device_id", deviceId)
+      .maybeSingle()
+
+    if (error) {
+      console.error("[v0] Error loading device calibration:", error)
+      return null
+    }
+
+    const stored = session?.hardware_specs?.calibration
+    this.calibration = isCalibrationCurrent(stored) ? stored : null
+    return this.calibration
+  }
+
+  public async calibrate(): Promise<DeviceCalibration> {
+    console.log("[v0] Benchmarking task types on this device")
+    this.calibration = await runBenchmarkSuite(this.workerPool)
+    console.log(`[v0] Calibrated ${Object.keys(this.calibration.benchmarks).length} task types`)
+    return this.calibration
+  }
+
+  public getCalibration(): DeviceCalibration | null {
+    return this.calibration
+  }
+
+  private async restoreCheckpoints(userId: string, deviceId: string): Promise<void> {
+    const checkpoints = await listCheckpoints(userId, deviceId)
+    const queuedIds = new Set(this.taskQueue.pending_tasks.map((t) => t.id))
+
+    for (const checkpoint of checkpoints) {
+      if (queuedIds.has(checkpoint.task_id)) continue
+      this.resumeCheckpoints.set(checkpoint.task_id, checkpoint)
+      this.taskQueue.pending_tasks.unshift(checkpoint.task)
+    }
+
+    if (checkpoints.length > 0) {
+      console.log(`[v0] Restored ${checkpoints.length} checkpointed tasks`)
+    }
+  }
+
+  // Keeps every slot busy and one claimed unit ready behind them, so a finishing task is
+  // replaced the moment its slot frees up
   private async coordinationLoop(userId: string, deviceId: string): Promise<void> {
     while (this.isActive) {
       try {
+        this.startQueuedTasks(userId, deviceId)
+
         // Fetch available tasks from the network
-        await this.fetchAvailableTasks(userId)
-
-        // Execute next task if available and not currently running
-        if (this.taskQueue.pending_tasks.length > 0 && !this.computeEngine.isCurrentlyRunning()) {
-          const nextTask = this.taskQueue.pending_tasks.shift()
-          if (nextTask) {
-            await this.executeTask(nextTask, userId, deviceId)
-          }
-        }
+        await this.fetchAvailableTasks(deviceId)
+
+        // A claim for a free slot starts straight away rather than waiting for an announcement
+        if (this.hasFreeSlot() && this.taskQueue.pending_tasks.length > 0) continue
 
-        // Wait before next coordination cycle
-        await new Promise((resolve) => setTimeout(resolve, 10000)) // 10 seconds
+        await this.waitForWork()
       } catch (error) {
         console.error("[v0] Coordination loop error:", error)
         await new Promise((resolve) => setTimeout(resolve, 30000)) // Wait 30 seconds on error
@@ -60,132 +276,389 @@ export class TaskCoordinator {
     }
   }
 
-  private async fetchAvailableTasks(userId: string): Promise<void> {
+  private startQueuedTasks(userId: string, deviceId: string): void {
+    while (this.isActive && this.hasFreeSlot() && this.taskQueue.pending_tasks.length > 0) {
+      const nextTask = this.taskQueue.pending_tasks.shift()!
+      this.runTask(nextTask, userId, deviceId).catch((error) => this.handleTaskError(error))
+    }
+  }
+
+  // Resolves on the next work announcement, or after a recheck interval that is short while the
+  // feed is down or the last claim failed
+  private waitForWork(): Promise<void> {
+    if (this.workSignalled || !this.isActive) {
+      this.workSignalled = false
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve) => {
+      const interval = this.feedConnected && !this.claimFailed ? IDLE_RECHECK_MS : POLL_INTERVAL_MS
+      const timer = setTimeout(() => this.signalWork(), interval)
+      this.wakeLoop = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+  }
+
+  private signalWork(): void {
+    const wake = this.wakeLoop
+    if (wake) {
+      this.wakeLoop = null
+      wake()
+    } else {
+      this.workSignalled = true
+    }
+  }
+
+  // The server revoked a lease, because it ran out or its operation was deactivated:
+  // drop the claim if it has not started, otherwise abandon the running task
+  private revokeLease(executionId: string, reason: string | null): void {
+    const isRevoked = (task: ComputeTask) => (task.execution_id ?? task.id) === executionId
+
+    const pending = this.taskQueue.pending_tasks.find(isRevoked)
+    if (pending) {
+      console.log(`[v0] Lease on task ${pending.id} revoked before it started: ${reason ?? "no reason given"}`)
+      this.taskQueue.pending_tasks = this.taskQueue.pending_tasks.filter((task) => task !== pending)
+      if (this.resumeCheckpoints.delete(pending.id)) {
+        deleteCheckpoint(pending.id)
+      }
+      this.signalWork()
+      return
+    }
+
+    const active = this.taskQueue.active_tasks.find(isRevoked)
+    if (active) {
+      console.log(`[v0] Lease on task ${active.id} revoked, abandoning it: ${reason ?? "no reason given"}`)
+      this.runningTasks.get(active.id)?.controller.abort()
+    }
+  }
+
+  // Lease the next unit from the server. Each claim reserves one replica slot for this
+  // device until its lease runs out, so only one claimed unit is kept waiting at a time.
+  private async fetchAvailableTasks(deviceId: string): Promise<void> {
+    if (this.taskQueue.pending_tasks.length > 0) return
+
     try {
-      // Get user's unlock threshold from their stats
-      const { data: userStats } = await this.supabase.from("users").select("*").eq("id", userId).maybeSingle()
+      // Without a provider the device claims only operations that set no requirements
+      const capabilities = (await this.capabilityProvider?.()) ?? {}
+      const { data: claims, error } = await this.supabase.rpc("claim_work_unit", {
+        p_device_id: deviceId,
+        p_capabilities: capabilities,
+      })
+
+      if (error) {
+        console.error("[v0] Error claiming work unit:", error)
+        this.claimFailed = true
+        return
+      }
+      this.claimFailed = false
 
-      if (!userStats) return
+      const claim = claims?.[0]
+      if (!claim) return
 
-      // Fetch operations that user has access to
-      const { data: operations, error } = await this.supabase
+      const { data: op, error: opError } = await this.supabase
         .from("operations")
         .select("*")
-        .eq("is_active", true)
-        .lte("unlock_threshold", userStats.total_operations || 0)
-        .limit(5)
+        .eq("id", claim.operation_id)
+        .single()
 
-      if (error) {
-        console.error("[v0] Error fetching operations:", error)
+      if (opError || !op) {
+        console.error("[v0] Error fetching claimed operation:", opError)
+        await this.releaseLease(claim.execution_id, "Operation unavailable")
+        return
+      }
+
+      const type = resolveOperationTaskType(op)
+      let parameters = claim.parameters || op.parameters || {}
+
+      // Give back units this client cannot run before they reach a worker
+      if (!hasTaskType(type)) {
+        console.error(`[v0] Skipping operation ${op.id}: unknown task type ${type}`)
+        await this.releaseLease(claim.execution_id, `Unknown task type ${type}`)
         return
       }
+      let validated: any
+      try {
+        validated = validateTaskParameters(type, parameters)
 
-      // Convert operations to compute tasks
-      const newTasks: ComputeTask[] = (operations || []).map((op: any) => ({
-        id: crypto.randomUUID(),
+        const resized = await this.sizeWorkUnit(claim.work_unit_id, type, parameters, validated)
+        if (resized) {
+          parameters = resized
+          validated = validateTaskParameters(type, resized)
+        }
+      } catch (validationError) {
+        if (!(validationError instanceof InvalidTaskParametersError)) throw validationError
+        // Bad parameters are the unit's fault, so this counts against its retries
+        console.error(`[v0] Skipping operation ${op.id}:`, validationError.message)
+        await this.failExecution(claim.execution_id, validationError.message)
+        return
+      }
+
+      this.taskQueue.pending_tasks.push({
+        id: claim.execution_id,
         operation_id: op.id,
-        type: this.mapOperationType(op.name),
-        parameters: op.parameters || {},
+        work_unit_id: claim.work_unit_id,
+        execution_id: claim.execution_id,
+        type,
+        parameters,
         hash: op.task_hash,
         signature: op.task_signature,
-        priority: 1,
-        estimated_duration: op.required_compute_power * 1000, // Convert to milliseconds
+        pow_difficulty: op.pow_difficulty,
+        priority: op.priority ?? 0,
+        estimated_duration: estimateDurationMs(this.calibration, type, validated) ?? op.required_compute_power * 1000,
         created_at: new Date().toISOString(),
-      }))
-
-      // Add new tasks to queue (avoid duplicates)
-      const existingOperationIds = new Set(this.taskQueue.pending_tasks.map((t) => t.operation_id))
-      const uniqueNewTasks = newTasks.filter((task) => !existingOperationIds.has(task.operation_id))
-
-      this.taskQueue.pending_tasks.push(...uniqueNewTasks)
+      })
 
-      console.log(`[v0] Fetched ${uniqueNewTasks.length} new tasks, queue size: ${this.taskQueue.pending_tasks.length}`)
+      console.log(`[v0] Claimed unit ${claim.unit_index} of operation ${op.id}, lease until ${claim.lease_expires_at}`)
     } catch (error) {
       console.error("[v0] Error in fetchAvailableTasks:", error)
+      this.claimFailed = true
+    }
+  }
+
+  // Returns false once the server has given the slot to someone else
+  private async renewLease(executionId: string): Promise<boolean> {
+    const { data: expiresAt, error } = await this.supabase.rpc("renew_work_unit_lease", { p_execution_id: executionId })
+    if (error) {
+      // A transient failure is not a lost lease; the next renewal tries again
+      console.error("[v0] Error renewing work unit lease:", error)
+      return true
+    }
+    return expiresAt != null
+  }
+
+  // Losing a running task's lease means another device has the slot, so the task is abandoned
+  private async renewRunningLease(task: ComputeTask, executionId: string): Promise<void> {
+    if (Date.now() - this.claimsRenewedAt >= LEASE_RENEW_INTERVAL_MS / 2) {
+      this.claimsRenewedAt = Date.now()
+      this.renewPendingClaims()
+    }
+
+    if (await this.renewLease(executionId)) return
+    console.error(`[v0] Lost the lease on task ${task.id}, abandoning it`)
+    this.runningTasks.get(task.id)?.controller.abort()
+  }
+
+  private async releaseLease(executionId: string, reason: string): Promise<void> {
+    const { error } = await this.supabase.rpc("release_work_unit_lease", { p_execution_id: executionId, p_reason: reason })
+    if (error) {
+      console.error("[v0] Error releasing work unit lease:", error)
+    }
+  }
+
+  // The server counts the failure against the unit and, within the operation's retry
+  // limit, offers it to another device after a backoff
+  private async failExecution(executionId: string, message: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("task_executions")
+      .update({
+        status: "failed",
+        error_message: message,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", executionId)
+    if (error) {
+      console.error("[v0] Error recording failed execution:", error)
+    }
+  }
+
+  // A claim waiting for a slot is not running, so nothing else keeps its lease alive
+  private async renewPendingClaims(): Promise<void> {
+    for (const task of this.taskQueue.pending_tasks) {
+      if (task.execution_id && !(await this.renewLease(task.execution_id))) {
+        this.revokeLease(task.execution_id, "Lease lost while queued")
+      }
     }
   }
 
-  private mapOperationType(operationName: string): ComputeTask["type"] {
-    switch (operationName) {
-      case "OPERATION_PRIME_SWEEP":
-        return "prime_search"
-      case "OPERATION_CRYPTO_ANALYSIS":
-        return "crypto_analysis"
-      case "OPERATION_DATA_MATRIX":
-        return "matrix_operations"
-      default:
-        return "hash_computation"
+  // Claimed units that never started go back to the pool instead of waiting out their lease
+  private async releasePendingClaims(): Promise<void> {
+    const claims = this.taskQueue.pending_tasks.filter((task) => !this.resumeCheckpoints.has(task.id))
+    this.taskQueue.pending_tasks = this.taskQueue.pending_tasks.filter((task) => this.resumeCheckpoints.has(task.id))
+    await Promise.all(
+      claims.filter((task) => task.execution_id).map((task) => this.releaseLease(task.execution_id!, "Device stopped")),
+    )
+  }
+
+  // Carve an untouched unit down to what this device finishes in about TARGET_UNIT_DURATION_MS.
+  // Returns the parameters the server now holds for the unit, or null to run it as fetched.
+  private async sizeWorkUnit(workUnitId: string, type: string, parameters: any, validated: any): Promise<Record<string, any> | null> {
+    const definition = getTaskType(type)
+    const target = operationsForDuration(this.calibration, type, TARGET_UNIT_DURATION_MS)
+    if (!target || !definition.resize || !definition.estimateOperations) return null
+    if (definition.estimateOperations(validated) <= target * UNIT_SPLIT_SLACK) return null
+
+    const split = definition.resize(parameters, target)
+    if (!split) return null
+
+    // The server only accepts the split while this device's unstarted claim is the unit's only
+    // replica, and otherwise answers with the unit's current parameters
+    const { data: current, error } = await this.supabase.rpc("split_work_unit", {
+      p_work_unit_id: workUnitId,
+      p_head: split.head,
+      p_tail: split.tail,
+    })
+
+    if (error) {
+      console.error("[v0] Error splitting work unit:", error)
+      return null
     }
+    return current ?? null
   }
 
-  private async executeTask(task: ComputeTask, userId: string, deviceId: string): Promise<void> {
+  private async executeTask(task: ComputeTask, userId: string, deviceId: string, signal: AbortSignal): Promise<void> {
     console.log(`[v0] Starting task execution: ${task.type}`)
 
     // Move task to active queue
     this.taskQueue.active_tasks.push(task)
 
-    // Record task execution start in database
-    const { data: execution, error: insertError } = await this.supabase
-      .from("task_executions")
-      .insert({
-        operation_id: task.operation_id,
-        user_id: userId,
-        device_id: deviceId,
-        task_data: task.parameters,
-        status: "running",
-        started_at: new Date().toISOString(),
-      })
-      .select()
-      .single()
+    const resumed = this.resumeCheckpoints.get(task.id)
+    this.resumeCheckpoints.delete(task.id)
+
+    // A checkpoint is only worth resuming while this device still holds the unit
+    if (resumed && !(await this.renewLease(resumed.execution_id))) {
+      console.log(`[v0] Lease on task ${task.id} expired while it was paused, discarding its checkpoint`)
+      await deleteCheckpoint(task.id)
+      this.taskQueue.active_tasks = this.taskQueue.active_tasks.filter((t) => t.id !== task.id)
+      return
+    }
+
+    // Start the execution claimed for this unit, or reopen the checkpointed one
+    const { data: execution, error: insertError } = resumed
+      ? await this.supabase
+          .from("task_executions")
+          .update({ status: "resumed", paused_at: null })
+          .eq("id", resumed.execution_id)
+          .select()
+          .single()
+      : await this.supabase
+          .from("task_executions")
+          .update({
+            task_data: task.parameters,
+            status: "running",
+            started_at: new Date().toISOString(),
+          })
+          .eq("id", task.execution_id)
+          .eq("status", "pending")
+          .select()
+          .single()
 
     if (insertError) {
       console.error("[v0] Error recording task execution:", insertError)
+      if (resumed) await deleteCheckpoint(task.id)
+      this.taskQueue.active_tasks = this.taskQueue.active_tasks.filter((t) => t.id !== task.id)
       return
     }
 
+    if (resumed) {
+      console.log(`[v0] Resuming task ${task.id} from ${resumed.operations} operations`)
+    }
+
+    let checkpointOperations = resumed?.operations ?? 0
+    // Renew on a timer, not on progress: a long kernel call or a throttled run reports nothing for a while
+    const leaseTimer = setInterval(() => this.renewRunningLease(task, execution.id), LEASE_RENEW_INTERVAL_MS)
+
     try {
-      // Execute the task with progress callback
-      const result = await this.computeEngine.executeTask(task, async (progress: number, operations: number) => {
-        await this.handleProgress(task, progress, operations)
+      // Execute the task in the worker pool with progress and checkpoint callbacks
+      const result = await this.workerPool.executeTask(
+        { ...task, execution_id: execution.id },
+        (event) => this.handleProgress(event),
+        {
+          signal,
+          resumeState: resumed?.state,
+          onCheckpoint: (state, operations) => {
+            checkpointOperations = operations
+            saveCheckpoint({
+              task_id: task.id,
+              execution_id: execution.id,
+              user_id: userId,
+              device_id: deviceId,
+              task,
+              state,
+              operations,
+              updated_at: new Date().toISOString(),
+            })
+          },
+        },
+      )
+
+      // Submit through the RPC so the server checks the proof-of-work before accepting the result.
+      // The server hashes result_data itself, and the proof's challenge is built from that same hash
+      const { data: submission, error: submitError } = await this.supabase.rpc("submit_task_result", {
+        p_execution_id: execution.id,
+        p_result_data: result.result_data,
+        p_proof_of_work: result.proof_of_work,
+        p_compute_time_ms: result.computation_time,
       })
 
-      // Update task execution with results
-      await this.supabase
-        .from("task_executions")
-        .update({
-          result_data: result.result_data,
-          status: "completed",
-          compute_time_ms: result.computation_time,
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", execution.id)
-
-      console.log(`[v0] Task completed successfully: ${task.type}`)
+      if (submitError) {
+        throw new Error(`Result submission failed: ${submitError.message}`)
+      }
+
+      await deleteCheckpoint(task.id)
+
+      if (submission === "completed") {
+        console.log(`[v0] Task completed successfully: ${task.type}`)
+      } else {
+        console.error(`[v0] Task result ${submission}: ${task.type}`)
+      }
     } catch (error) {
-      // Update task execution with error
-      await this.supabase
-        .from("task_executions")
-        .update({
-          status: "failed",
-          error_message: error instanceof Error ? error.message : "Unknown error",
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", execution.id)
+      if (error instanceof TaskCancelledError && this.pausedTaskIds.has(task.id)) {
+        // Interrupted on purpose: keep the local checkpoint and mark the execution paused
+        await this.supabase
+          .from("task_executions")
+          .update({
+            status: "paused",
+            paused_at: new Date().toISOString(),
+            checkpoint_operations: checkpointOperations,
+          })
+          .eq("id", execution.id)
+
+        console.log(`[v0] Task paused: ${task.type}`)
+        return
+      }
+
+      await deleteCheckpoint(task.id)
+
+      if (error instanceof TaskCancelledError) {
+        await this.supabase
+          .from("task_executions")
+          .update({
+            status: "cancelled",
+            operations_completed: error.operations,
+            completed_at: new Date().toISOString(),
+          })
+          .eq("id", execution.id)
+
+        console.log(`[v0] Task cancelled after ${error.operations} operations: ${task.type}`)
+        return
+      }
+
+      await this.failExecution(execution.id, error instanceof Error ? error.message : "Unknown error")
 
       console.error(`[v0] Task execution failed: ${task.type}`, error)
     } finally {
-      // Remove from active queue and add to completed
+      clearInterval(leaseTimer)
+      // Remove from active queue and add to completed unless it will be resumed
       this.taskQueue.active_tasks = this.taskQueue.active_tasks.filter((t) => t.id !== task.id)
-      this.taskQueue.completed_tasks.push(task.id)
+      this.taskProgress.delete(task.id)
+      if (this.pausedTaskIds.has(task.id)) {
+        this.pausedTaskIds.delete(task.id)
+      } else {
+        this.taskQueue.completed_tasks.push(task.id)
+      }
     }
   }
 
-  private async handleProgress(task: ComputeTask, progress: number, operations: number): Promise<void> {
-    const percent = Math.min(Math.max(progress * 100, 0), 100)
-    console.log(`[v0] Task progress: ${percent.toFixed(1)}% - operations: ${operations} - type: ${task.type}`)
+  private handleProgress(event: TaskProgressEvent): void {
+    this.taskProgress.set(event.task_id, event)
+    this.progressListeners.forEach((listener) => listener(event))
 
-    // Update network metrics with current progress
-    await this.updateNetworkMetrics(operations, percent)
+    if (event.phase === "computing" && event.timestamp - this.lastMetricsAt >= METRICS_INTERVAL_MS) {
+      this.lastMetricsAt = event.timestamp
+      this.updateNetworkMetrics(event.ops_per_second, event.fraction * 100)
+    }
   }
 
   private async handleTaskComplete(result: TaskResult): Promise<void> {
@@ -199,13 +672,13 @@ export class TaskCoordinator {
     console.error("[v0] Task execution error:", error)
   }
 
-  private async updateNetworkMetrics(operationsCompleted: number, progressPercent: number): Promise<void> {
+  private async updateNetworkMetrics(operationsPerSecond: number, progressPercent: number): Promise<void> {
     try {
       await this.supabase.from("network_metrics").insert({
         active_users: 1,
-        total_cpu_cores: typeof navigator !== 'undefined' ? (navigator.hardwareConcurrency || 4) : 4,
-        total_memory_gb: typeof navigator !== 'undefined' ? ((navigator as any).deviceMemory || 4) : 4,
-        operations_per_second: operationsCompleted,
+        total_cpu_cores: this.options.cpuCores ?? (typeof navigator !== 'undefined' ? (navigator.hardwareConcurrency || 4) : 4),
+        total_memory_gb: this.options.memoryGb ?? (typeof navigator !== 'undefined' ? ((navigator as any).deviceMemory || 4) : 4),
+        operations_per_second: Math.round(operationsPerSecond),
         network_efficiency: progressPercent,
         average_latency_ms: 50,
       })
@@ -223,8 +696,24 @@ export class TaskCoordinator {
     }
   }
 
+  // Returns the unsubscribe function
+  public onTaskProgress(listener: (event: TaskProgressEvent) => void): () => void {
+    this.progressListeners.add(listener)
+    return () => this.progressListeners.delete(listener)
+  }
+
+  public getTaskProgress(): TaskProgressEvent[] {
+    return Array.from(this.taskProgress.values())
+  }
+
   public getQueueStatus(): TaskQueue {
-    return { ...this.taskQueue }
+    return { ...this.taskQueue, slots: this.taskQueue.slots.map((slot) => ({ ...slot })) }
+  }
+
+  // Called whenever a slot is taken, freed, added or removed; returns the unsubscribe function
+  public onQueueChange(listener: (queue: TaskQueue) => void): () => void {
+    this.queueListeners.add(listener)
+    return () => this.queueListeners.delete(listener)
   }
 
   public isCoordinatorActive(): boolean {
@@ -0,0 +1,109 @@
+// Normalised, throttled progress events for a single task run
+
+export type TaskPhase = "starting" | "computing" | "verifying" | "proving" | "completed" | "failed" | "cancelled"
+
+export interface TaskProgressEvent {
+  task_id: string
+  task_type: string
+  phase: TaskPhase
+  // 0-1, from the task type's progress normaliser
+  fraction: number
+  operations: number
+  // Smoothed over recent events
+  ops_per_second: number
+  // null until there is enough progress to extrapolate
+  eta_ms: number | null
+  elapsed_ms: number
+  timestamp: number
+}
+
+export const DEFAULT_PROGRESS_INTERVAL_MS = 250
+
+// Weight of the newest window in the ops/sec average
+const RATE_SMOOTHING = 0.3
+
+const FINAL_PHASES: TaskPhase[] = ["completed", "failed", "cancelled"]
+
+export class TaskProgressTracker {
+  private startedAt = Date.now()
+  private lastEmitAt = 0
+  private phase: TaskPhase = "starting"
+  private fraction = 0
+  private operations = 0
+  private opsPerSecond = 0
+  private rateWindow: { time: number; operations: number }
+  // Where ETA extrapolation starts; a resumed run starts at its first report, not at zero
+  private baseline: { time: number; fraction: number } | null
+
+  constructor(
+    private task: { id: string; type: string },
+    private emit: (event: TaskProgressEvent) => void,
+    private intervalMs = DEFAULT_PROGRESS_INTERVAL_MS,
+    resuming = false,
+  ) {
+    this.rateWindow = { time: this.startedAt, operations: 0 }
+    this.baseline = resuming ? null : { time: this.startedAt, fraction: 0 }
+    this.publish()
+  }
+
+  // Record a raw report; emits at most once per intervalMs
+  public update(operations: number, fraction: number): void {
+    const now = Date.now()
+    if (!this.baseline) {
+      this.baseline = { time: now, fraction }
+      this.rateWindow = { time: now, operations }
+    }
+
+    this.operations = operations
+    this.fraction = Math.min(Math.max(fraction, this.fraction), 1)
+    if (this.phase === "starting") this.phase = "computing"
+
+    if (now - this.lastEmitAt >= this.intervalMs) {
+      this.publish(now)
+    }
+  }
+
+  // Phase changes are always emitted
+  public setPhase(phase: TaskPhase): void {
+    this.phase = phase
+    if (phase === "completed") this.fraction = 1
+    this.publish()
+  }
+
+  public snapshot(now = Date.now()): TaskProgressEvent {
+    return {
+      task_id: this.task.id,
+      task_type: this.task.type,
+      phase: this.phase,
+      fraction: this.fraction,
+      operations: this.operations,
+      ops_per_second: this.opsPerSecond,
+      eta_ms: this.estimateRemaining(now),
+      elapsed_ms: now - this.startedAt,
+      timestamp: now,
+    }
+  }
+
+  private publish(now = Date.now()): void {
+    // Only computing windows count towards throughput; later phases do no operations
+    const windowMs = now - this.rateWindow.time
+    if (this.phase === "computing" && windowMs > 0 && this.operations >= this.rateWindow.operations) {
+      const rate = ((this.operations - this.rateWindow.operations) * 1000) / windowMs
+      this.opsPerSecond = this.opsPerSecond === 0 ? rate : this.opsPerSecond + RATE_SMOOTHING * (rate - this.opsPerSecond)
+      this.rateWindow = { time: now, operations: this.operations }
+    }
+
+    this.lastEmitAt = now
+    this.emit(this.snapshot(now))
+  }
+
+  private estimateRemaining(now: number): number | null {
+    if (FINAL_PHASES.includes(this.phase)) return this.phase === "completed" ? 0 : null
+    if (!this.baseline) return null
+
+    const progressed = this.fraction - this.baseline.fraction
+    const elapsed = now - this.baseline.time
+    if (progressed <= 0 || elapsed <= 0) return null
+    return Math.round(((1 - this.fraction) * elapsed) / progressed)
+  }
+}
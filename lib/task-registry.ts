@@ -0,0 +1,144 @@
+// Registry of compute task types: what each accepts, reports and returns
+import { z } from "zod"
+import type { RandomSource } from "./seeded-random"
+
+export type TaskTypeId = string
+
+// How an operation's parameters become work units (split_job in 013_map_reduce_jobs.sql)
+export const JOB_SPLITTERS = ["single", "range", "seeded", "list"] as const
+export type JobSplitter = (typeof JOB_SPLITTERS)[number]
+
+// How verified unit results become operations.job_result (reduce_job)
+export const JOB_REDUCERS = ["collect", "prime_search", "monte_carlo"] as const
+export type JobReducer = (typeof JOB_REDUCERS)[number]
+
+export interface JobDefinition {
+  splitter: JobSplitter
+  reducer: JobReducer
+}
+
+const DEFAULT_JOB: JobDefinition = { splitter: "single", reducer: "collect" }
+
+export interface TaskCheckpointer {
+  resumeState: any | null
+  save: (operations: number, buildState: () => any) => void
+}
+
+// Everything a task type needs while it runs
+export interface TaskRunContext<P = any> {
+  parameters: P
+  // operations.task_hash of the task being run
+  taskHash: string
+  seed: string
+  random: RandomSource
+  checkpoint: TaskCheckpointer
+  signal: AbortSignal
+  // hint is handed to the type's progress normaliser unchanged
+  reportProgress: (operations: number, hint?: number) => void
+  // Yield to the event loop; throws once the run has been aborted
+  yieldControl: () => Promise<void>
+}
+
+export interface TaskTypeDefinition<P = any> {
+  type: TaskTypeId
+  label: string
+  description: string
+  // Legacy operation names that imply this type when operations.task_type is unset
+  operationNames?: string[]
+  parameters: z.ZodType<P, z.ZodTypeDef, any>
+  // Starting point shown in the admin dialog; must satisfy the parameter schema
+  defaultParameters: Record<string, any>
+  // Map raw progress from the handler to a 0-1 fraction
+  progress: (operations: number, parameters: P, hint?: number) => number
+  result: z.ZodTypeAny
+  // Sanity checks on a finished result before it is submitted for quorum verification
+  verify: (result: any, parameters: P) => boolean | Promise<boolean>
+  // Task types outside the engine's built-in kernels supply their own executor
+  run?: (context: TaskRunContext<P>) => Promise<any>
+  // Short fixed-size instance used to measure this device's throughput; types without one are never calibrated
+  benchmarkParameters?: Record<string, any>
+  // Predicted operations_performed, so measured throughput converts into wall-clock time
+  estimateOperations?: (parameters: P) => number
+  // Split a unit into a head worth about `operations` and the remaining tail; null when it cannot shrink
+  resize?: (parameters: P, operations: number) => { head: Record<string, any>; tail: Record<string, any> } | null
+  // Splitter and reducer new operations of this type default to; one collected unit when omitted
+  job?: JobDefinition
+}
+
+export class InvalidTaskParametersError extends Error {
+  constructor(public taskType: TaskTypeId, public issues: string[]) {
+    super(`Invalid parameters for ${taskType}: ${issues.join("; ")}`)
+    this.name = "InvalidTaskParametersError"
+  }
+}
+
+const FALLBACK_TASK_TYPE = "hash_computation"
+
+const registry = new Map<TaskTypeId, TaskTypeDefinition>()
+
+export function registerTaskType<P>(definition: TaskTypeDefinition<P>): void {
+  if (registry.has(definition.type)) {
+    throw new Error(`Task type ${definition.type} is already registered`)
+  }
+  registry.set(definition.type, definition as TaskTypeDefinition)
+}
+
+export function getTaskType(type: TaskTypeId): TaskTypeDefinition {
+  const definition = registry.get(type)
+  if (!definition) {
+    throw new Error(`Unknown task type: ${type}`)
+  }
+  return definition
+}
+
+export function hasTaskType(type: TaskTypeId): boolean {
+  return registry.has(type)
+}
+
+export function listTaskTypes(): TaskTypeDefinition[] {
+  return Array.from(registry.values())
+}
+
+// Explicit operations.task_type wins; older operations are matched by name
+export function resolveOperationTaskType(operation: { name: string; task_type?: string | null }): TaskTypeId {
+  if (operation.task_type) {
+    return operation.task_type
+  }
+  const match = listTaskTypes().find((definition) => definition.operationNames?.includes(operation.name))
+  return match ? match.type : FALLBACK_TASK_TYPE
+}
+
+export function defaultJobFor(type: TaskTypeId): JobDefinition {
+  return getTaskType(type).job ?? DEFAULT_JOB
+}
+
+// Expand the units a splitter will create from parameters, as far as the client can predict them
+// ("range" and "seeded" units only differ in fields the server fills in)
+export function previewJobUnits(splitter: JobSplitter, parameters: Record<string, any>): Record<string, any>[] {
+  if (splitter !== "list") return [parameters]
+
+  const { unit_parameters: entries, ...shared } = parameters
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("The list splitter needs a non-empty unit_parameters array")
+  }
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`unit_parameters[${index}] must be an object`)
+    }
+    return { ...shared, ...entry }
+  })
+}
+
+// Parse parameters against the type's schema, applying defaults; throws InvalidTaskParametersError
+export function validateTaskParameters<P = any>(type: TaskTypeId, parameters: unknown): P {
+  const definition = getTaskType(type)
+  const parsed = definition.parameters.safeParse(parameters ?? {})
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+    )
+    throw new InvalidTaskParametersError(type, issues)
+  }
+  return parsed.data as P
+}
@@ -0,0 +1,392 @@
+// Built-in task types executed by ComputeEngine's kernels
+import { z } from "zod"
+import { registerTaskType } from "./task-registry"
+import { WASM_KERNEL_TASK_TYPE, runWasmKernel } from "./wasm-sandbox"
+import { HASH_ALGORITHMS, HASH_HEX_LENGTHS, normalizeHashAlgorithm, type HashAlgorithm } from "./hash-algorithms"
+
+export const MATRIX_OPERATIONS = ["multiply", "transpose", "determinant", "inverse", "solve", "rank", "qr"] as const
+
+export const MONTE_CARLO_SIMULATIONS = ["pi", "random_walk", "option_pricing"] as const
+
+// Uniform draws each Monte Carlo sample consumes; progress and resume replay count in draws
+export function monteCarloDrawsPerSample(parameters: { simulation: string; steps: number }): number {
+  return parameters.simulation === "random_walk" ? parameters.steps : 2
+}
+
+// Largest integer every JS number can represent exactly
+const MAX_SAFE_RANGE = Number.MAX_SAFE_INTEGER
+
+const seed = z.union([z.string(), z.number()]).optional()
+const count = (min: number, max: number) => z.number().int().min(min).max(max)
+const hashFunction = z.string().transform(normalizeHashAlgorithm).pipe(z.enum(HASH_ALGORITHMS)).default("sha256")
+
+const HASH_INPUT_PATTERNS = {
+  utf8: /^/,
+  base64: /^[A-Za-z0-9+/]*={0,2}$/,
+  hex: /^(?:[0-9a-fA-F]{2})*$/,
+}
+
+// Smallest range a unit may be split down to; split_work_unit enforces the same floor
+const MIN_RANGE_UNIT = 1000
+
+// Split [startKey, endKey) so the head covers about `operations` values
+function splitRange(parameters: Record<string, any>, startKey: string, endKey: string, operations: number) {
+  const start: number = parameters[startKey] ?? 0
+  const end = parameters[endKey]
+  if (typeof end !== "number") return null
+
+  const boundary = start + Math.max(Math.floor(operations), MIN_RANGE_UNIT)
+  if (end - boundary < MIN_RANGE_UNIT) return null
+  return {
+    head: { ...parameters, [startKey]: start, [endKey]: boundary },
+    tail: { ...parameters, [startKey]: boundary, [endKey]: end },
+  }
+}
+
+// Multiplications for 1! through n!, which is what the kernel counts
+function factorialOperations(maxNumber: number): number {
+  return (maxNumber * (maxNumber - 1)) / 2
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data))
+  return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+registerTaskType({
+  type: "prime_search",
+  label: "Prime Search",
+  description: "Segmented sieve over [range_start, range_end); unit_size splits the range into work units",
+  operationNames: ["OPERATION_PRIME_SWEEP"],
+  parameters: z
+    .object({
+      range_start: count(0, MAX_SAFE_RANGE).default(0),
+      range_end: count(2, MAX_SAFE_RANGE).optional(),
+      range_size: count(1, MAX_SAFE_RANGE - 1).optional(),
+      target_primes: count(0, 100000).default(100),
+      segment_size: count(1024, 1 << 24).default(262144),
+      unit_size: count(1000, MAX_SAFE_RANGE).optional(),
+      seed,
+    })
+    .passthrough()
+    .refine((p) => p.range_end !== undefined || p.range_size !== undefined, {
+      message: "range_end (or legacy range_size) is required",
+    })
+    .refine((p) => p.range_end === undefined || p.range_end > p.range_start, {
+      message: "range_end must be greater than range_start",
+      path: ["range_end"],
+    }),
+  defaultParameters: { range_start: 0, range_end: 1000000, target_primes: 100 },
+  job: { splitter: "range", reducer: "prime_search" },
+  benchmarkParameters: { range_start: 1000000000, range_end: 1010000000, target_primes: 10 },
+  // The kernel counts each number it examines; nothing below 2 is
+  estimateOperations: (parameters) => (parameters.range_end ?? parameters.range_size! + 1) - Math.max(parameters.range_start, 2),
+  resize: (parameters, operations) => splitRange(parameters, "range_start", "range_end", operations),
+  progress: (_operations, _parameters, fraction = 0) => fraction,
+  result: z
+    .object({
+      primes: z.array(z.number()),
+      total_primes_found: z.number().int().nonnegative(),
+      prime_sum: z.string(),
+      operations_performed: z.number(),
+    })
+    .passthrough(),
+  verify: (result) =>
+    result.primes.length <= result.total_primes_found &&
+    result.primes.every((p: number, i: number) => p >= result.range_start && p < result.range_end && (i === 0 || p > result.primes[i - 1])),
+})
+
+registerTaskType({
+  type: "hash_computation",
+  label: "Hash Computation",
+  description: "Hash seeded pseudo-random inputs for a number of iterations, or a supplied batch of inputs",
+  parameters: z
+    .object({
+      hash_function: hashFunction,
+      pattern_length: count(1, 64).default(8),
+      iterations: count(1, 10000000).default(10000),
+      // Batch mode: hash these instead of random strings; iterations is ignored
+      inputs: z.array(z.string().max(1 << 20)).min(1).max(100000).optional(),
+      input_encoding: z.enum(["utf8", "base64", "hex"]).default("utf8"),
+      seed,
+    })
+    .passthrough()
+    .refine((p) => !p.inputs || p.inputs.every((input) => HASH_INPUT_PATTERNS[p.input_encoding].test(input)), {
+      message: "every input must match input_encoding",
+      path: ["inputs"],
+    }),
+  defaultParameters: { hash_function: "sha256", iterations: 10000 },
+  benchmarkParameters: { hash_function: "sha256", iterations: 5000 },
+  estimateOperations: (parameters) => parameters.inputs?.length ?? parameters.iterations,
+  progress: (operations, parameters) => operations / (parameters.inputs?.length ?? parameters.iterations),
+  result: z
+    .object({
+      hashes: z.array(z.string()),
+      total_hashes: z.number().int(),
+      operations_performed: z.number(),
+    })
+    .passthrough(),
+  verify: (result, parameters) =>
+    result.hashes.length === (parameters.inputs?.length ?? parameters.iterations) &&
+    result.total_hashes === result.hashes.length &&
+    result.hashes.every((hash: string) => hash.length === HASH_HEX_LENGTHS[parameters.hash_function as HashAlgorithm]),
+})
+
+registerTaskType({
+  type: "matrix_operations",
+  label: "Matrix Operations",
+  description: "Dense linear algebra on seeded random n×n matrices",
+  operationNames: ["OPERATION_DATA_MATRIX"],
+  parameters: z
+    .object({
+      matrix_size: count(1, 2000).default(64),
+      operations: z.array(z.enum(MATRIX_OPERATIONS)).nonempty().default(["multiply"]),
+      full_result_max_elements: count(0, 4000000).default(1024),
+      seed,
+    })
+    .passthrough(),
+  defaultParameters: { matrix_size: 64, operations: ["multiply", "determinant"] },
+  benchmarkParameters: { matrix_size: 96, operations: ["multiply", "determinant"] },
+  progress: (_operations, _parameters, fraction = 0) => fraction,
+  result: z
+    .object({
+      matrix_size: z.number().int(),
+      operations_performed: z.number(),
+      results: z.record(z.any()),
+    })
+    .passthrough(),
+  verify: (result, parameters) => result.matrix_size === parameters.matrix_size,
+})
+
+registerTaskType({
+  type: "crypto_analysis",
+  label: "Crypto Analysis",
+  description: "SHA-256 preimage search over a keyspace, or Caesar frequency analysis of a ciphertext",
+  operationNames: ["OPERATION_CRYPTO_ANALYSIS"],
+  parameters: z.preprocess(
+    (value) => (value && typeof value === "object" && !("mode" in value) ? { ...value, mode: "key_search" } : value),
+    z.discriminatedUnion("mode", [
+      z
+        .object({
+          mode: z.literal("key_search"),
+          target_hash: z.string().regex(/^[0-9a-f]{64}$/i, "must be a SHA-256 hex digest"),
+          key_prefix: z.string().default(""),
+          keyspace_start: count(0, MAX_SAFE_RANGE).default(0),
+          keyspace_end: count(1, MAX_SAFE_RANGE),
+          seed,
+        })
+        .passthrough(),
+      z
+        .object({
+          mode: z.literal("frequency_analysis"),
+          ciphertext: z.string().regex(/[a-z]/i, "must contain letters"),
+          top_candidates: count(1, 26).default(3),
+          seed,
+        })
+        .passthrough(),
+    ]),
+  ).refine((p) => p.mode !== "key_search" || p.keyspace_end > p.keyspace_start, {
+    message: "keyspace_end must be greater than keyspace_start",
+    path: ["keyspace_end"],
+  }),
+  defaultParameters: {
+    mode: "key_search",
+    target_hash: "1ec4cea2b673ac59dd70cdf1fc542e557145cfb4401ae0b3605f0e9b3944130f",
+    key_prefix: "key-",
+    keyspace_start: 0,
+    keyspace_end: 1000000,
+  },
+  benchmarkParameters: { mode: "key_search", target_hash: "0".repeat(64), key_prefix: "benchmark-", keyspace_start: 0, keyspace_end: 5000 },
+  estimateOperations: (parameters) =>
+    parameters.mode === "key_search" ? parameters.keyspace_end - parameters.keyspace_start : parameters.ciphertext.length + 26,
+  resize: (parameters, operations) =>
+    (parameters.mode ?? "key_search") === "key_search" ? splitRange(parameters, "keyspace_start", "keyspace_end", operations) : null,
+  progress: (operations, _parameters, total = 1) => operations / Math.max(total, 1),
+  result: z.object({ mode: z.enum(["key_search", "frequency_analysis"]), operations_performed: z.number() }).passthrough(),
+  verify: async (result) => {
+    if (result.mode !== "key_search" || !result.found) return true
+    return (await sha256Hex(result.candidate)) === result.target_hash
+  },
+})
+
+registerTaskType({
+  type: "factorial_computation",
+  label: "Factorial Computation",
+  description: "Exact factorials 1! through max_number!",
+  parameters: z.object({ max_number: count(1, 5000).default(100), seed }).passthrough(),
+  defaultParameters: { max_number: 100 },
+  benchmarkParameters: { max_number: 600 },
+  estimateOperations: (parameters) => factorialOperations(parameters.max_number),
+  progress: (operations, parameters) => operations / Math.max(factorialOperations(parameters.max_number), 1),
+  result: z.object({ factorials: z.array(z.string()), operations_performed: z.number() }).passthrough(),
+  verify: (result, parameters) => result.factorials.length === parameters.max_number,
+})
+
+registerTaskType({
+  type: "fibonacci_sequence",
+  label: "Fibonacci Sequence",
+  description: "Exact Fibonacci numbers up to sequence_length terms",
+  parameters: z.object({ sequence_length: count(2, 100000).default(1000), seed }).passthrough(),
+  defaultParameters: { sequence_length: 1000 },
+  benchmarkParameters: { sequence_length: 5000 },
+  estimateOperations: (parameters) => parameters.sequence_length - 2,
+  progress: (operations, parameters) => operations / parameters.sequence_length,
+  result: z.object({ sequence: z.array(z.string()), operations_performed: z.number() }).passthrough(),
+  verify: (result, parameters) => result.sequence.length === parameters.sequence_length,
+})
+
+registerTaskType({
+  type: "pi_calculation",
+  label: "Pi Calculation",
+  description: "Decimal digits via Chudnovsky, or hexadecimal digit ranges via BBP extraction",
+  parameters: z.preprocess(
+    (value) => (value && typeof value === "object" && !("mode" in value) ? { ...value, mode: "decimal" } : value),
+    z.discriminatedUnion("mode", [
+      z.object({ mode: z.literal("decimal"), digits: count(1, 1000000).default(1000), seed }).passthrough(),
+      z
+        .object({
+          mode: z.literal("hex_range"),
+          digit_start: count(1, 10000000),
+          digit_count: count(1, 100000),
+          seed,
+        })
+        .passthrough(),
+    ]),
+  ),
+  defaultParameters: { mode: "decimal", digits: 1000 },
+  benchmarkParameters: { mode: "decimal", digits: 20000 },
+  progress: (_operations, _parameters, fraction = 0) => fraction,
+  result: z
+    .object({
+      mode: z.enum(["decimal", "hex_range"]),
+      digits: z.string(),
+      checksum: z.string(),
+      operations_performed: z.number(),
+    })
+    .passthrough(),
+  verify: async (result) => (await sha256Hex(result.digits)) === result.checksum,
+})
+
+registerTaskType({
+  type: "sha256_mining",
+  label: "SHA-256 Mining",
+  description: "Search nonces for a block hash starting with target_pattern; hash_function defaults to sha256",
+  parameters: z
+    .object({
+      target_pattern: z.string().regex(/^[0-9a-f]{1,8}$/, "must be 1-8 lowercase hex characters").default("0000"),
+      hash_function: hashFunction,
+      seed,
+    })
+    .passthrough(),
+  defaultParameters: { target_pattern: "0000" },
+  progress: (operations) => operations / 1000000,
+  result: z.object({ hash_found: z.string(), nonce_used: z.number().int(), operations_performed: z.number() }).passthrough(),
+  verify: (result, parameters) => result.hash_found.startsWith(parameters.target_pattern) || result.operations_performed >= 1000000,
+})
+
+registerTaskType({
+  type: "monte_carlo",
+  label: "Monte Carlo Simulation",
+  description: "Seeded sampling (pi, random walk, option pricing) returning mergeable count/mean/M2/histogram; units splits the operation",
+  parameters: z
+    .object({
+      simulation: z.enum(MONTE_CARLO_SIMULATIONS).default("pi"),
+      samples: count(1, 1000000000).default(1000000),
+      bins: count(1, 1024).default(32),
+      // Defaults depend on the simulation; every unit of an operation shares them so histograms merge
+      histogram_min: z.number().finite().optional(),
+      histogram_max: z.number().finite().optional(),
+      steps: count(1, 10000).default(100),
+      step_size: z.number().positive().finite().default(1),
+      spot: z.number().positive().finite().default(100),
+      strike: z.number().positive().finite().default(100),
+      rate: z.number().min(-1).max(1).default(0.05),
+      volatility: z.number().positive().max(5).default(0.2),
+      maturity: z.number().positive().max(100).default(1),
+      option_type: z.enum(["call", "put"]).default("call"),
+      // Number of work units split_monte_carlo creates, each with its own seed
+      units: count(1, 100000).optional(),
+      seed,
+    })
+    .passthrough()
+    .refine((p) => p.histogram_min === undefined || p.histogram_max === undefined || p.histogram_min < p.histogram_max, {
+      message: "histogram_min must be less than histogram_max",
+      path: ["histogram_max"],
+    }),
+  defaultParameters: { simulation: "pi", samples: 1000000, units: 10 },
+  job: { splitter: "seeded", reducer: "monte_carlo" },
+  benchmarkParameters: { simulation: "pi", samples: 200000 },
+  estimateOperations: (parameters) => parameters.samples * monteCarloDrawsPerSample(parameters),
+  progress: (operations, parameters) => operations / (parameters.samples * monteCarloDrawsPerSample(parameters)),
+  result: z
+    .object({
+      simulation: z.enum(MONTE_CARLO_SIMULATIONS),
+      statistics: z.object({
+        count: z.number().int(),
+        mean: z.number(),
+        m2: z.number().nonnegative(),
+        min: z.number(),
+        max: z.number(),
+      }),
+      histogram: z.object({
+        min: z.number(),
+        max: z.number(),
+        counts: z.array(z.number().int().nonnegative()),
+        underflow: z.number().int().nonnegative(),
+        overflow: z.number().int().nonnegative(),
+      }),
+      operations_performed: z.number(),
+    })
+    .passthrough(),
+  verify: (result, parameters) => {
+    const { statistics, histogram } = result
+    const binned = histogram.counts.reduce((sum: number, n: number) => sum + n, 0) + histogram.underflow + histogram.overflow
+    return (
+      statistics.count === parameters.samples &&
+      histogram.counts.length === parameters.bins &&
+      binned === statistics.count &&
+      statistics.min <= statistics.mean &&
+      statistics.mean <= statistics.max
+    )
+  },
+})
+
+registerTaskType({
+  type: WASM_KERNEL_TASK_TYPE,
+  label: "WASM Kernel",
+  description: "Sandboxed WebAssembly module from the wasm-kernels bucket; task_hash must be the module's SHA-256",
+  parameters: z
+    .object({
+      module_path: z.string().regex(/^(?!.*\.\.)[\w\-./]+\.wasm$/, "must be a .wasm path inside the wasm-kernels bucket"),
+      input: z.string().default(""),
+      input_encoding: z.enum(["utf8", "base64"]).default("utf8"),
+      chunk_size: count(1, 1 << 24).default(65536),
+      memory_pages_initial: count(1, 16384).default(16),
+      memory_pages_max: count(1, 16384).default(256),
+      time_budget_ms: count(100, 600000).default(30000),
+      max_output_bytes: count(0, 1 << 26).default(1 << 20),
+      full_output_max_bytes: count(0, 1 << 20).default(65536),
+      seed,
+    })
+    .passthrough()
+    .refine((p) => p.memory_pages_initial <= p.memory_pages_max, {
+      message: "memory_pages_initial cannot exceed memory_pages_max",
+      path: ["memory_pages_initial"],
+    }),
+  defaultParameters: { module_path: "kernels/example.wasm", input: "", time_budget_ms: 30000, memory_pages_max: 256 },
+  progress: (_operations, _parameters, fraction = 0) => fraction,
+  result: z
+    .object({
+      module_hash: z.string().regex(/^[0-9a-f]{64}$/),
+      bytes_in: z.number().int(),
+      bytes_out: z.number().int(),
+      output: z.string().nullable(),
+      output_hash: z.string().regex(/^[0-9a-f]{64}$/),
+      operations_performed: z.number(),
+    })
+    .passthrough(),
+  verify: (result, parameters) =>
+    result.bytes_out <= parameters.max_output_bytes &&
+    result.chunks_processed === Math.ceil(result.bytes_in / parameters.chunk_size),
+  run: runWasmKernel,
+})
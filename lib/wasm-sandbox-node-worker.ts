@@ -0,0 +1,10 @@
+// worker_threads entrypoint for headless contributors; the Node counterpart of wasm-sandbox-worker.ts
+import { parentPort } from "worker_threads"
+import { createSandboxHost, type WasmSandboxRequest } from "./wasm-sandbox"
+
+const port = parentPort!
+const handle = createSandboxHost((message) => port.postMessage(message))
+
+port.on("message", (message: WasmSandboxRequest) => {
+  void handle(message)
+})
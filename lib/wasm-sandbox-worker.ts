@@ -0,0 +1,13 @@
+// Web Worker entrypoint that hosts a single WASM kernel so it can be terminated mid-call
+import { createSandboxHost, type WasmSandboxRequest, type WasmSandboxResponse } from "./wasm-sandbox"
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WasmSandboxRequest>) => void) | null
+  postMessage: (message: WasmSandboxResponse) => void
+}
+
+const handle = createSandboxHost((message) => ctx.postMessage(message))
+
+ctx.onmessage = (event) => {
+  void handle(event.data)
+}
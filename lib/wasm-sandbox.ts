@@ -0,0 +1,393 @@
+// Sandboxed execution of admin-published WebAssembly kernels (ABI: docs/WASM_KERNELS.md)
+import { loadWorkerThreads, startNodeWorker } from "./node-worker"
+import type { TaskRunContext } from "./task-registry"
+
+export const WASM_KERNEL_TASK_TYPE = "wasm_kernel"
+export const WASM_KERNEL_BUCKET = "wasm-kernels"
+
+export interface WasmKernelParameters {
+  module_path: string
+  input: string
+  input_encoding: "utf8" | "base64"
+  chunk_size: number
+  memory_pages_initial: number
+  memory_pages_max: number
+  time_budget_ms: number
+  max_output_bytes: number
+  full_output_max_bytes: number
+}
+
+// Messages sent from the engine to a sandbox worker
+export type WasmSandboxRequest =
+  | { type: "init"; module: WebAssembly.Module; initialPages: number; maxPages: number }
+  | { type: "process"; chunk: Uint8Array }
+  | { type: "finish" }
+
+// Messages sent from a sandbox worker back to the engine
+export type WasmSandboxResponse =
+  | { type: "ready" }
+  | { type: "output"; data: Uint8Array }
+  | { type: "error"; error: string }
+
+interface KernelExports {
+  alloc: (length: number) => number
+  process: (pointer: number, length: number) => number
+  output_ptr: () => number
+  init?: () => void
+  finish?: () => number
+}
+
+interface KernelRunner {
+  init: (module: WebAssembly.Module, initialPages: number, maxPages: number) => Promise<void>
+  process: (chunk: Uint8Array) => Promise<Uint8Array>
+  finish: () => Promise<Uint8Array>
+  dispose: () => void
+}
+
+// A thread hosting one kernel; terminating it stops even a call that never returns
+interface SandboxThread {
+  postMessage: (message: WasmSandboxRequest) => void
+  terminate: () => void
+}
+
+interface SandboxListeners {
+  onMessage: (message: WasmSandboxResponse) => void
+  onError: (error: Error) => void
+}
+
+// Entrypoint for worker_threads, resolved at runtime so bundlers leave it alone
+const NODE_WORKER_ENTRY = "./wasm-sandbox-node-worker.ts"
+
+// The only host functions a kernel may import
+const ALLOWED_IMPORTS = new Set(["env.memory", "env.abort"])
+const REQUIRED_EXPORTS = ["alloc", "process", "output_ptr"]
+
+export async function sha256Hex(data: BufferSource | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+  const hashBuffer = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+export async function fetchKernelModule(modulePath: string): Promise<ArrayBuffer> {
+  const url = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${WASM_KERNEL_BUCKET}/${encodeURI(modulePath)}`
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Could not fetch WASM kernel ${modulePath}: HTTP ${response.status}`)
+  }
+  return await response.arrayBuffer()
+}
+
+// Content hash admins store as operations.task_hash for a kernel operation
+export async function hashKernelModule(modulePath: string): Promise<string> {
+  return await sha256Hex(await fetchKernelModule(modulePath))
+}
+
+export function validateKernelModule(module: WebAssembly.Module): void {
+  const imports = WebAssembly.Module.imports(module)
+  for (const entry of imports) {
+    if (!ALLOWED_IMPORTS.has(`${entry.module}.${entry.name}`)) {
+      throw new Error(`WASM kernel imports ${entry.module}.${entry.name}, which the sandbox does not provide`)
+    }
+  }
+  if (!imports.some((entry) => entry.module === "env" && entry.name === "memory" && entry.kind === "memory")) {
+    throw new Error("WASM kernel must import its memory as env.memory")
+  }
+
+  const exported = new Map(WebAssembly.Module.exports(module).map((entry) => [entry.name, entry.kind]))
+  for (const name of REQUIRED_EXPORTS) {
+    if (exported.get(name) !== "function") {
+      throw new Error(`WASM kernel must export a ${name} function`)
+    }
+  }
+}
+
+// One instantiated kernel; runs on whichever thread owns it
+export class WasmKernelInstance {
+  private constructor(
+    private exports: KernelExports,
+    private memory: WebAssembly.Memory,
+  ) {}
+
+  public static async create(module: WebAssembly.Module, initialPages: number, maxPages: number): Promise<WasmKernelInstance> {
+    // Imported memory with a hard maximum caps everything the kernel can allocate
+    const memory = new WebAssembly.Memory({ initial: initialPages, maximum: maxPages })
+    const instance = await WebAssembly.instantiate(module, {
+      env: {
+        memory,
+        abort: (code: number) => {
+          throw new Error(`WASM kernel aborted with code ${code}`)
+        },
+      },
+    })
+
+    const kernel = new WasmKernelInstance(instance.exports as unknown as KernelExports, memory)
+    kernel.exports.init?.()
+    return kernel
+  }
+
+  public process(chunk: Uint8Array): Uint8Array {
+    const pointer = this.exports.alloc(chunk.length) >>> 0
+    this.checkBounds(pointer, chunk.length)
+    new Uint8Array(this.memory.buffer, pointer, chunk.length).set(chunk)
+    return this.readOutput(this.exports.process(pointer, chunk.length))
+  }
+
+  public finish(): Uint8Array {
+    return this.exports.finish ? this.readOutput(this.exports.finish()) : new Uint8Array(0)
+  }
+
+  private readOutput(length: number): Uint8Array {
+    if (length < 0) {
+      throw new Error(`WASM kernel returned error code ${length}`)
+    }
+    if (length === 0) return new Uint8Array(0)
+
+    const pointer = this.exports.output_ptr() >>> 0
+    this.checkBounds(pointer, length)
+    return new Uint8Array(this.memory.buffer, pointer, length).slice()
+  }
+
+  private checkBounds(pointer: number, length: number): void {
+    if (pointer + length > this.memory.buffer.byteLength) {
+      throw new Error("WASM kernel pointer is outside its memory")
+    }
+  }
+}
+
+// Handles one sandbox thread's requests; shared by the Web Worker and worker_threads entrypoints
+export function createSandboxHost(postMessage: (message: WasmSandboxResponse) => void) {
+  let kernel: WasmKernelInstance | null = null
+
+  return async (message: WasmSandboxRequest): Promise<void> => {
+    try {
+      switch (message.type) {
+        case "init":
+          kernel = await WasmKernelInstance.create(message.module, message.initialPages, message.maxPages)
+          postMessage({ type: "ready" })
+          break
+
+        case "process":
+          if (!kernel) throw new Error("WASM kernel is not initialised")
+          postMessage({ type: "output", data: kernel.process(message.chunk) })
+          break
+
+        case "finish":
+          if (!kernel) throw new Error("WASM kernel is not initialised")
+          postMessage({ type: "output", data: kernel.finish() })
+          break
+      }
+    } catch (error) {
+      postMessage({
+        type: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
+
+function spawnWebWorker(listeners: SandboxListeners): SandboxThread {
+  const worker = new Worker(new URL("./wasm-sandbox-worker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<WasmSandboxResponse>) => listeners.onMessage(event.data)
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault()
+    listeners.onError(new Error(event.message || "WASM sandbox crashed"))
+  }
+  return worker
+}
+
+// Headless contributors have no Web Workers; null when worker_threads is unavailable too
+async function spawnNodeWorker(listeners: SandboxListeners): Promise<SandboxThread | null> {
+  const threads = await loadWorkerThreads()
+  if (!threads) return null
+
+  const worker = startNodeWorker(threads, new URL(NODE_WORKER_ENTRY, import.meta.url))
+  worker.on("message", (message: WasmSandboxResponse) => listeners.onMessage(message))
+  worker.on("error", (error: Error) => listeners.onError(error))
+  worker.on("exit", (code) => listeners.onError(new Error(`WASM sandbox exited with code ${code}`)))
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    terminate: () => void worker.terminate(),
+  }
+}
+
+// Runs the kernel on a dedicated thread so a runaway call can be killed mid-chunk
+class WorkerKernelRunner implements KernelRunner {
+  private pending: { resolve: (message: WasmSandboxResponse) => void; reject: (error: Error) => void } | null = null
+  private thread: SandboxThread | null = null
+
+  private listeners: SandboxListeners = {
+    onMessage: (message) => {
+      const pending = this.pending
+      this.pending = null
+      pending?.resolve(message)
+    },
+    onError: (error) => {
+      const pending = this.pending
+      this.pending = null
+      pending?.reject(error)
+    },
+  }
+
+  // Null when this environment has no thread the kernel could be killed on
+  public static async create(): Promise<WorkerKernelRunner | null> {
+    const runner = new WorkerKernelRunner()
+    runner.thread =
+      typeof Worker !== "undefined" ? spawnWebWorker(runner.listeners) : await spawnNodeWorker(runner.listeners)
+    return runner.thread ? runner : null
+  }
+
+  private constructor() {}
+
+  public async init(module: WebAssembly.Module, initialPages: number, maxPages: number): Promise<void> {
+    await this.request({ type: "init", module, initialPages, maxPages })
+  }
+
+  public async process(chunk: Uint8Array): Promise<Uint8Array> {
+    return this.outputOf(await this.request({ type: "process", chunk }))
+  }
+
+  public async finish(): Promise<Uint8Array> {
+    return this.outputOf(await this.request({ type: "finish" }))
+  }
+
+  public dispose(): void {
+    this.thread?.terminate()
+    this.thread = null
+    this.pending?.reject(new Error("WASM sandbox terminated"))
+    this.pending = null
+  }
+
+  private request(message: WasmSandboxRequest): Promise<WasmSandboxResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.thread) {
+        reject(new Error("WASM sandbox terminated"))
+        return
+      }
+      this.pending = {
+        resolve: (response) => (response.type === "error" ? reject(new Error(response.error)) : resolve(response)),
+        reject,
+      }
+      this.thread.postMessage(message)
+    })
+  }
+
+  private outputOf(response: WasmSandboxResponse): Uint8Array {
+    return response.type === "output" ? response.data : new Uint8Array(0)
+  }
+}
+
+function decodeInput(params: WasmKernelParameters): Uint8Array {
+  if (params.input_encoding === "base64") {
+    const binary = atob(params.input)
+    return Uint8Array.from(binary, (ch) => ch.charCodeAt(0))
+  }
+  return new TextEncoder().encode(params.input)
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+export async function runWasmKernel(context: TaskRunContext<WasmKernelParameters>): Promise<any> {
+  const params = context.parameters
+  const aborted = () => new Error("Task aborted")
+  if (context.signal.aborted) throw aborted()
+
+  // Only run the exact module the operation was published with
+  const bytes = await fetchKernelModule(params.module_path)
+  const moduleHash = await sha256Hex(bytes)
+  if (moduleHash !== context.taskHash.toLowerCase()) {
+    throw new Error(`WASM kernel hash ${moduleHash} does not match the operation's task_hash`)
+  }
+
+  const module = await WebAssembly.compile(bytes)
+  validateKernelModule(module)
+
+  const input = decodeInput(params)
+  // A kernel run on this thread could block it forever, so without a worker the task is refused
+  const runner: KernelRunner | null = await WorkerKernelRunner.create()
+  if (!runner) {
+    throw new Error("WASM kernels need a worker thread to enforce their time budget, and none is available here")
+  }
+  // Only time spent inside the kernel counts; throttle sleeps in yieldControl do not
+  let budgetLeft = params.time_budget_ms
+
+  // Killing the thread is the only way to interrupt a call already inside the kernel
+  const withinBudget = <T>(step: Promise<T>): Promise<T> => {
+    const started = Date.now()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let onAbort: (() => void) | undefined
+    const interrupted = new Promise<never>((_, reject) => {
+      const stop = (error: Error) => {
+        runner.dispose()
+        reject(error)
+      }
+      if (context.signal.aborted) {
+        stop(aborted())
+        return
+      }
+      timer = setTimeout(
+        () => stop(new Error(`WASM kernel exceeded its ${params.time_budget_ms}ms time budget`)),
+        Math.max(budgetLeft, 0),
+      )
+      onAbort = () => stop(aborted())
+      context.signal.addEventListener("abort", onAbort)
+    })
+    return Promise.race([step, interrupted]).finally(() => {
+      budgetLeft -= Date.now() - started
+      clearTimeout(timer)
+      if (onAbort) context.signal.removeEventListener("abort", onAbort)
+    })
+  }
+
+  const outputs: Uint8Array[] = []
+  let bytesOut = 0
+  let chunks = 0
+  const collect = (output: Uint8Array) => {
+    bytesOut += output.length
+    if (bytesOut > params.max_output_bytes) {
+      throw new Error(`WASM kernel output exceeded ${params.max_output_bytes} bytes`)
+    }
+    outputs.push(output)
+  }
+
+  try {
+    await withinBudget(runner.init(module, params.memory_pages_initial, params.memory_pages_max))
+
+    for (let offset = 0; offset < input.length; offset += params.chunk_size) {
+      const chunk = input.subarray(offset, offset + params.chunk_size)
+      collect(await withinBudget(runner.process(chunk)))
+      chunks++
+
+      const processed = offset + chunk.length
+      context.reportProgress(processed, processed / input.length)
+      await context.yieldControl()
+    }
+
+    collect(await withinBudget(runner.finish()))
+  } finally {
+    runner.dispose()
+  }
+
+  const output = new Uint8Array(bytesOut)
+  let position = 0
+  for (const part of outputs) {
+    output.set(part, position)
+    position += part.length
+  }
+
+  return {
+    module_path: params.module_path,
+    module_hash: moduleHash,
+    chunks_processed: chunks,
+    bytes_in: input.length,
+    bytes_out: bytesOut,
+    output: bytesOut <= params.full_output_max_bytes ? encodeBase64(output) : null,
+    output_hash: await sha256Hex(output),
+    operations_performed: input.length
+  }
+}
@@ -0,0 +1,83 @@
+// Realtime announcements of claimable work and revoked leases, so coordinators wait on events instead of polling
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js"
+
+export interface WorkFeedHandlers {
+  // Claimable work may have appeared; claiming finds out whether this device gets any
+  onWorkAvailable: () => void
+  // The server took back the lease on one of this device's executions
+  onLeaseRevoked: (executionId: string, reason: string | null) => void
+  // False while the channel is down; the coordinator polls until it reconnects
+  onConnectionChange: (connected: boolean) => void
+}
+
+// Backoffs are capped at an hour server-side, so no wake is scheduled further out
+const MAX_RETRY_WAKE_MS = 60 * 60 * 1000
+
+export class WorkFeed {
+  private channel: RealtimeChannel | null = null
+  // Wakes for units whose retry backoff ends later; no row changes when it does
+  private retryTimers = new Set<ReturnType<typeof setTimeout>>()
+
+  constructor(
+    private supabase: SupabaseClient,
+    private handlers: WorkFeedHandlers,
+  ) {}
+
+  public open(deviceId: string): void {
+    if (this.channel) return
+
+    this.channel = this.supabase
+      .channel(`work_feed:${deviceId}`)
+      // Only active operations are visible, so deactivations arrive as lease revocations instead
+      .on("postgres_changes", { event: "*", schema: "public", table: "operations" }, () => {
+        this.handlers.onWorkAvailable()
+      })
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "work_units" }, () => {
+        this.handlers.onWorkAvailable()
+      })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "work_units" }, (payload) => {
+        this.handleUnitUpdate(payload.new as { status: string; retry_after: string | null })
+      })
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "task_executions", filter: `device_id=eq.${deviceId}` },
+        (payload) => {
+          const execution = payload.new as { id: string; status: string; error_message: string | null }
+          if (execution.status === "expired") {
+            this.handlers.onLeaseRevoked(execution.id, execution.error_message)
+          }
+        },
+      )
+      .subscribe((status) => {
+        console.log(`[v0] Work feed ${status}`)
+        this.handlers.onConnectionChange(status === "SUBSCRIBED")
+      })
+  }
+
+  public async close(): Promise<void> {
+    this.retryTimers.forEach((timer) => clearTimeout(timer))
+    this.retryTimers.clear()
+
+    if (this.channel) {
+      const channel = this.channel
+      this.channel = null
+      await this.supabase.removeChannel(channel)
+    }
+  }
+
+  private handleUnitUpdate(unit: { status: string; retry_after: string | null }): void {
+    if (unit.status !== "pending" && unit.status !== "disputed") return
+
+    const waitMs = unit.retry_after ? new Date(unit.retry_after).getTime() - Date.now() : 0
+    if (waitMs <= 0) {
+      this.handlers.onWorkAvailable()
+      return
+    }
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer)
+      this.handlers.onWorkAvailable()
+    }, Math.min(waitMs, MAX_RETRY_WAKE_MS))
+    this.retryTimers.add(timer)
+  }
+}
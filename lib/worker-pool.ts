@@ -0,0 +1,387 @@
+// Pool of dedicated workers that execute ComputeTasks off the main thread: Web Workers in the
+// browser, worker_threads on headless contributors
+import { ComputeEngine, TaskCancelledError, type ComputeTask, type ExecuteOptions, type TaskResult } from "./compute-engine"
+import type { TaskProgressEvent } from "./task-progress"
+import { dutyCycleFor } from "./cpu-throttle"
+import type { ResourceLimits } from "./hardware-detection"
+import { isNodeRuntime, loadWorkerThreads, startNodeWorker, type NodeThreads } from "./node-worker"
+
+// Messages sent from the pool to a worker
+export type WorkerRequest =
+  | { type: "start"; taskId: string; task: ComputeTask; resumeState?: any; checkpointIntervalMs?: number; progressIntervalMs?: number; dutyCycle: number }
+  | { type: "cancel"; taskId: string }
+  | { type: "throttle"; dutyCycle: number }
+
+// Messages sent from a worker back to the pool
+export type WorkerResponse =
+  | { type: "progress"; taskId: string; event: TaskProgressEvent }
+  | { type: "checkpoint"; taskId: string; state: any; operations: number }
+  | { type: "result"; taskId: string; result: TaskResult }
+  | { type: "cancelled"; taskId: string; operations: number }
+  | { type: "error"; taskId: string; error: string }
+
+export type ProgressCallback = (event: TaskProgressEvent) => void
+
+// How long a worker gets to acknowledge a cancel before its thread is reclaimed
+const CANCEL_GRACE_MS = 5000
+
+// Working set assumed for each in-flight task when fitting tasks into max_memory_mb
+export const TASK_MEMORY_MB = 128
+
+// Entrypoint for worker_threads, resolved at runtime so bundlers leave it alone
+const NODE_WORKER_ENTRY = "./compute-worker-node.ts"
+
+interface PendingJob {
+  task: ComputeTask
+  onProgress?: ProgressCallback
+  options: ExecuteOptions
+  operations: number
+  resolve: (result: TaskResult) => void
+  reject: (error: Error) => void
+}
+
+// A thread running one ComputeEngine
+interface ComputeThread {
+  postMessage: (message: WorkerRequest) => void
+  terminate: () => void
+}
+
+interface PoolSlot {
+  worker: ComputeThread
+  job: PendingJob | null
+}
+
+export function detectCpuCores(): number {
+  return typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 4 : 4
+}
+
+// Leave one core for the UI thread
+export function defaultPoolSize(cores = detectCpuCores()): number {
+  return Math.max(1, cores - 1)
+}
+
+// Tasks to keep in flight: enough workers to spend the whole CPU budget (each throttled to
+// its share), no more than fit the memory budget, and never more than the pool has
+export function taskSlotsFor(
+  limits: Pick<ResourceLimits, "max_cpu_percent" | "max_memory_mb">,
+  cores: number,
+  poolSize: number,
+): number {
+  const cpuSlots = Math.ceil((Math.max(0, limits.max_cpu_percent) / 100) * Math.max(1, cores))
+  const memorySlots = Math.floor(limits.max_memory_mb / TASK_MEMORY_MB)
+  return Math.max(1, Math.min(cpuSlots, memorySlots, poolSize))
+}
+
+// Runs one worker's tasks; shared by the Web Worker and worker_threads entrypoints
+export function createComputeWorkerHost(postMessage: (message: WorkerResponse) => void) {
+  const engine = new ComputeEngine()
+
+  return async (message: WorkerRequest): Promise<void> => {
+    switch (message.type) {
+      case "start": {
+        const { taskId, task, resumeState, checkpointIntervalMs, progressIntervalMs, dutyCycle } = message
+        engine.setDutyCycle(dutyCycle)
+        try {
+          const result = await engine.executeTask(
+            task,
+            (event) => {
+              postMessage({ type: "progress", taskId, event })
+            },
+            {
+              resumeState,
+              checkpointIntervalMs,
+              progressIntervalMs,
+              onCheckpoint: (state, operations) => {
+                postMessage({ type: "checkpoint", taskId, state, operations })
+              },
+            },
+          )
+          postMessage({ type: "result", taskId, result })
+        } catch (error) {
+          if (error instanceof TaskCancelledError) {
+            postMessage({ type: "cancelled", taskId, operations: error.operations })
+            break
+          }
+          postMessage({
+            type: "error",
+            taskId,
+            error: error instanceof Error ? error.message : "Unknown error",
+          })
+        }
+        break
+      }
+
+      case "cancel":
+        engine.stop()
+        break
+
+      case "throttle":
+        engine.setDutyCycle(message.dutyCycle)
+        break
+    }
+  }
+}
+
+export class ComputeWorkerPool {
+  private size: number
+  private slots: PoolSlot[] = []
+  private queue: PendingJob[] = []
+  private fallbackEngine: ComputeEngine | null = null
+  // worker_threads, once loaded on a headless contributor
+  private nodeThreads: NodeThreads | null = null
+  // Share of the whole machine all busy workers may use together; unthrottled until a limit is set
+  private maxCpuPercent = 100
+
+  constructor(size = defaultPoolSize(), private cores = detectCpuCores()) {
+    this.size = Math.max(1, size)
+  }
+
+  public static isSupported(): boolean {
+    return typeof Worker !== "undefined" || isNodeRuntime()
+  }
+
+  public async executeTask(task: ComputeTask, onProgress?: ProgressCallback, options: ExecuteOptions = {}): Promise<TaskResult> {
+    if (typeof Worker === "undefined" && !this.nodeThreads) {
+      this.nodeThreads = await loadWorkerThreads()
+    }
+
+    // Environments with neither kind of worker run the engine inline
+    if (typeof Worker === "undefined" && !this.nodeThreads) {
+      if (!this.fallbackEngine) {
+        this.fallbackEngine = new ComputeEngine()
+      }
+      this.fallbackEngine.setDutyCycle(dutyCycleFor(this.maxCpuPercent, this.cores, 1))
+      return this.fallbackEngine.executeTask(task, onProgress, options)
+    }
+
+    if (options.signal?.aborted) {
+      throw new TaskCancelledError(0)
+    }
+
+    return new Promise<TaskResult>((resolve, reject) => {
+      const onAbort = () => this.cancelTask(task.id)
+      options.signal?.addEventListener("abort", onAbort)
+
+      this.queue.push({
+        task,
+        onProgress,
+        options,
+        operations: 0,
+        resolve: (result) => {
+          options.signal?.removeEventListener("abort", onAbort)
+          resolve(result)
+        },
+        reject: (error) => {
+          options.signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      })
+      this.dispatch()
+    })
+  }
+
+  public cancelTask(taskId: string): boolean {
+    const queuedIndex = this.queue.findIndex((job) => job.task.id === taskId)
+    if (queuedIndex !== -1) {
+      const [job] = this.queue.splice(queuedIndex, 1)
+      job.reject(new TaskCancelledError(0))
+      return true
+    }
+
+    const slot = this.slots.find((s) => s.job?.task.id === taskId)
+    if (!slot || !slot.job) return false
+
+    const job = slot.job
+    this.post(slot, { type: "cancel", taskId })
+
+    // The engine stops at its next yield point; reclaim the thread if it never answers
+    setTimeout(() => {
+      if (slot.job !== job) return
+      console.error("[v0] Compute worker ignored cancel, terminating it")
+      this.replaceSlot(slot)
+      job.reject(new TaskCancelledError(job.operations))
+      this.dispatch()
+    }, CANCEL_GRACE_MS)
+    return true
+  }
+
+  public cancelAll(): void {
+    const queued = this.queue.splice(0)
+    queued.forEach((job) => job.reject(new TaskCancelledError(0)))
+
+    this.slots
+      .filter((slot) => slot.job)
+      .forEach((slot) => this.cancelTask(slot.job!.task.id))
+  }
+
+  public terminate(): void {
+    const queued = this.queue.splice(0)
+    queued.forEach((job) => job.reject(new TaskCancelledError(0)))
+
+    // Workers die immediately, so running jobs settle with their last reported count
+    this.slots.forEach((slot) => {
+      const job = slot.job
+      slot.job = null
+      slot.worker.terminate()
+      job?.reject(new TaskCancelledError(job.operations))
+    })
+    this.slots = []
+  }
+
+  // Applies to running tasks at their next yield point as well as to new ones
+  public setCpuLimit(maxCpuPercent: number): void {
+    this.maxCpuPercent = maxCpuPercent
+    this.applyThrottle()
+  }
+
+  // Per-worker duty cycle: the budget is split across however many workers are busy right now
+  public getDutyCycle(): number {
+    return dutyCycleFor(this.maxCpuPercent, this.cores, this.getActiveCount())
+  }
+
+  public getSize(): number {
+    return this.size
+  }
+
+  // The inline fallback has a single engine, so it runs one task at a time. Node always has
+  // worker_threads, so headless contributors get as many slots as a browser would
+  public getTaskSlots(limits: Pick<ResourceLimits, "max_cpu_percent" | "max_memory_mb">): number {
+    if (!ComputeWorkerPool.isSupported()) return 1
+    return taskSlotsFor(limits, this.cores, this.size)
+  }
+
+  public getActiveCount(): number {
+    return this.slots.filter((slot) => slot.job).length + (this.fallbackEngine?.isCurrentlyRunning() ? 1 : 0)
+  }
+
+  public getQueuedCount(): number {
+    return this.queue.length
+  }
+
+  public isBusy(): boolean {
+    return this.getActiveCount() > 0 || this.queue.length > 0
+  }
+
+  // Starts queued jobs on free slots, then rebalances the CPU budget over the busy workers
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const slot = this.acquireSlot()
+      if (!slot) break
+
+      const job = this.queue.shift()!
+      slot.job = job
+      this.post(slot, {
+        type: "start",
+        taskId: job.task.id,
+        task: job.task,
+        // The AbortSignal stays on this side; aborts are forwarded as cancel messages
+        resumeState: job.options.resumeState,
+        checkpointIntervalMs: job.options.checkpointIntervalMs,
+        progressIntervalMs: job.options.progressIntervalMs,
+        dutyCycle: this.getDutyCycle(),
+      })
+    }
+
+    this.applyThrottle()
+  }
+
+  private applyThrottle(): void {
+    const dutyCycle = this.getDutyCycle()
+    this.slots
+      .filter((slot) => slot.job)
+      .forEach((slot) => this.post(slot, { type: "throttle", dutyCycle }))
+    this.fallbackEngine?.setDutyCycle(dutyCycle)
+  }
+
+  private acquireSlot(): PoolSlot | null {
+    const idle = this.slots.find((slot) => !slot.job)
+    if (idle) return idle
+
+    if (this.slots.length < this.size) {
+      const slot = { job: null } as PoolSlot
+      slot.worker = this.spawnWorker(slot)
+      this.slots.push(slot)
+      return slot
+    }
+
+    return null
+  }
+
+  // Starts a thread whose messages and crashes are routed to the given slot
+  private spawnWorker(slot: PoolSlot): ComputeThread {
+    if (typeof Worker !== "undefined") {
+      const worker = new Worker(new URL("./compute-worker.ts", import.meta.url), { type: "module" })
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(slot, event.data)
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault()
+        this.handleCrash(slot, worker, event.message)
+      }
+      return worker
+    }
+
+    const worker = startNodeWorker(this.nodeThreads!, new URL(NODE_WORKER_ENTRY, import.meta.url))
+    const thread: ComputeThread = {
+      postMessage: (message) => worker.postMessage(message),
+      terminate: () => void worker.terminate(),
+    }
+    worker.on("message", (message: WorkerResponse) => this.handleMessage(slot, message))
+    worker.on("error", (error: Error) => this.handleCrash(slot, thread, error.message))
+    worker.on("exit", (code) => this.handleCrash(slot, thread, `Compute worker exited with code ${code}`))
+    return thread
+  }
+
+  // Threads this pool terminated on purpose are no longer a slot's worker, so they are ignored
+  private handleCrash(slot: PoolSlot, thread: ComputeThread, message: string): void {
+    if (slot.worker !== thread || !this.slots.includes(slot)) return
+
+    const job = slot.job
+    console.error("[v0] Compute worker crashed:", message)
+    this.replaceSlot(slot)
+    job?.reject(new Error(message || "Compute worker crashed"))
+    this.dispatch()
+  }
+
+  private handleMessage(slot: PoolSlot, message: WorkerResponse): void {
+    const job = slot.job
+    if (!job || job.task.id !== message.taskId) return
+
+    switch (message.type) {
+      case "progress":
+        job.operations = message.event.operations
+        job.onProgress?.(message.event)
+        break
+
+      case "checkpoint":
+        job.options.onCheckpoint?.(message.state, message.operations)
+        break
+
+      case "result":
+        slot.job = null
+        job.resolve(message.result)
+        this.dispatch()
+        break
+
+      case "cancelled":
+        slot.job = null
+        job.reject(new TaskCancelledError(message.operations))
+        this.dispatch()
+        break
+
+      case "error":
+        slot.job = null
+        job.reject(new Error(message.error))
+        this.dispatch()
+        break
+    }
+  }
+
+  private replaceSlot(slot: PoolSlot): void {
+    slot.worker.terminate()
+    slot.worker = this.spawnWorker(slot)
+    slot.job = null
+  }
+
+  private post(slot: PoolSlot, message: WorkerRequest): void {
+    slot.worker.postMessage(message)
+  }
+}
@@ -0,0 +1,452 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - REDUNDANT EXECUTION AND QUORUM VERIFICATION
+-- ============================================================================
+-- This script splits operations into work units, hands each unit to several
+-- independent devices and only accepts a result once a quorum of them agree
+-- Run this AFTER 001_rpc_functions.sql
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- How many independent devices run each unit, and how many must agree
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS replication_factor INTEGER DEFAULT 3 CHECK (replication_factor BETWEEN 1 AND 10),
+ADD COLUMN IF NOT EXISTS quorum_size INTEGER DEFAULT 2 CHECK (quorum_size >= 1);
+
+ALTER TABLE public.operations DROP CONSTRAINT IF EXISTS operations_quorum_within_replication;
+ALTER TABLE public.operations
+ADD CONSTRAINT operations_quorum_within_replication CHECK (quorum_size <= replication_factor);
+
+-- Work units: the smallest piece of an operation that is executed and verified
+CREATE TABLE IF NOT EXISTS public.work_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id UUID NOT NULL REFERENCES public.operations(id) ON DELETE CASCADE,
+  unit_index INTEGER NOT NULL DEFAULT 0,
+  parameters JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'disputed')),
+  verified_hash VARCHAR(64),
+  verified_result JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  verified_at TIMESTAMPTZ,
+  UNIQUE (operation_id, unit_index)
+);
+
+-- Link executions to their unit and record the hash they produced
+ALTER TABLE public.task_executions
+ADD COLUMN IF NOT EXISTS work_unit_id UUID REFERENCES public.work_units(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS verification_hash VARCHAR(64),
+ADD COLUMN IF NOT EXISTS verification_status TEXT DEFAULT 'pending'
+  CHECK (verification_status IN ('pending', 'verified', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_work_units_operation ON public.work_units(operation_id);
+CREATE INDEX IF NOT EXISTS idx_work_units_status ON public.work_units(status);
+CREATE INDEX IF NOT EXISTS idx_task_executions_work_unit ON public.task_executions(work_unit_id);
+CREATE INDEX IF NOT EXISTS idx_task_executions_verification ON public.task_executions(verification_status);
+
+ALTER TABLE public.work_units ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "work_units_select_authenticated" ON public.work_units;
+CREATE POLICY "work_units_select_authenticated" ON public.work_units FOR SELECT USING (auth.role() = 'authenticated');
+DROP POLICY IF EXISTS "work_units_system_all" ON public.work_units;
+CREATE POLICY "work_units_system_all" ON public.work_units FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- 2. WORK UNIT CREATION
+-- ============================================================================
+
+-- Every operation gets a single default unit carrying its parameters
+CREATE OR REPLACE FUNCTION public.create_default_work_unit()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.work_units (operation_id, unit_index, parameters)
+  VALUES (NEW.id, 0, COALESCE(NEW.parameters, '{}'))
+  ON CONFLICT (operation_id, unit_index) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_default_work_unit_trigger ON public.operations;
+CREATE TRIGGER create_default_work_unit_trigger
+  AFTER INSERT ON public.operations
+  FOR EACH ROW EXECUTE FUNCTION public.create_default_work_unit();
+
+-- Backfill units for operations created before this migration
+INSERT INTO public.work_units (operation_id, unit_index, parameters)
+SELECT o.id, 0, COALESCE(o.parameters, '{}')
+FROM public.operations o
+WHERE NOT EXISTS (SELECT 1 FROM public.work_units wu WHERE wu.operation_id = o.id);
+
+-- ============================================================================
+-- 3. RESULT PROTECTION
+-- ============================================================================
+
+-- Clients own their execution rows, so only the verifier may change verification_status
+CREATE OR REPLACE FUNCTION public.protect_verification_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('dedsec.verifier', true), '') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.verification_status := 'pending';
+    ELSE
+      NEW.verification_status := OLD.verification_status;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_verification_status_trigger ON public.task_executions;
+CREATE TRIGGER protect_verification_status_trigger
+  BEFORE INSERT OR UPDATE ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_verification_status();
+
+-- The hash a result votes with. JSONB normalises key order and whitespace, so identical
+-- results hash identically whatever the client's serialisation.
+CREATE OR REPLACE FUNCTION result_hash(p_result_data JSONB)
+RETURNS TEXT AS $$
+    SELECT encode(extensions.digest(p_result_data::TEXT, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Quorum is only as honest as the rows it counts: verification_hash is always computed
+-- here from result_data, an execution cannot be moved to another unit, and once it is
+-- completed its result and the figures that earn credit no longer change
+CREATE OR REPLACE FUNCTION public.protect_execution_result()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('dedsec.verifier', true), '') <> 'on'
+     AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'UPDATE' THEN
+      NEW.work_unit_id := OLD.work_unit_id;
+      IF OLD.status = 'completed' THEN
+        NEW.status := OLD.status;
+        NEW.result_data := OLD.result_data;
+        NEW.compute_time_ms := OLD.compute_time_ms;
+        NEW.cpu_time_seconds := OLD.cpu_time_seconds;
+        NEW.memory_usage_mb := OLD.memory_usage_mb;
+      END IF;
+    END IF;
+    NEW.verification_hash := result_hash(NEW.result_data);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_execution_result_trigger ON public.task_executions;
+CREATE TRIGGER protect_execution_result_trigger
+  BEFORE INSERT OR UPDATE ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_execution_result();
+
+-- ============================================================================
+-- 4. ASSIGNMENT AND VERIFICATION RPCS
+-- ============================================================================
+
+-- Return a unit of the operation that still needs replicas and that this user has not run.
+-- Disputed units stay open for one extra round of replicas so a quorum can still form.
+CREATE OR REPLACE FUNCTION request_work_unit(p_operation_id UUID, p_device_id TEXT)
+RETURNS TABLE (
+    work_unit_id UUID,
+    unit_index INTEGER,
+    parameters JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT wu.id, wu.unit_index, wu.parameters
+    FROM work_units wu
+    JOIN operations o ON o.id = wu.operation_id
+    WHERE wu.operation_id = p_operation_id
+      AND o.is_active = TRUE
+      AND wu.status IN ('pending', 'disputed')
+      AND NOT EXISTS (
+          SELECT 1 FROM task_executions te
+          WHERE te.work_unit_id = wu.id
+            AND (te.user_id = auth.uid() OR te.device_id = p_device_id)
+      )
+      AND (
+          SELECT COUNT(*) FROM task_executions te
+          WHERE te.work_unit_id = wu.id AND te.status IN ('running', 'completed')
+      ) < CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END
+    ORDER BY wu.unit_index
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Compare the hashes reported for a unit and settle it once a quorum of distinct users agree
+CREATE OR REPLACE FUNCTION verify_work_unit(p_work_unit_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_quorum INTEGER;
+    v_replication INTEGER;
+    v_top_hash VARCHAR(64);
+    v_top_votes INTEGER := 0;
+    v_completed INTEGER := 0;
+    v_status TEXT;
+    v_rejected RECORD;
+BEGIN
+    SELECT o.quorum_size, o.replication_factor
+    INTO v_quorum, v_replication
+    FROM work_units wu
+    JOIN operations o ON o.id = wu.operation_id
+    WHERE wu.id = p_work_unit_id
+    FOR UPDATE OF wu;
+
+    IF NOT FOUND THEN
+        RETURN 'missing';
+    END IF;
+
+    SELECT verification_hash, COUNT(DISTINCT user_id)
+    INTO v_top_hash, v_top_votes
+    FROM task_executions
+    WHERE work_unit_id = p_work_unit_id
+      AND status = 'completed'
+      AND verification_hash IS NOT NULL
+    GROUP BY verification_hash
+    ORDER BY COUNT(DISTINCT user_id) DESC, MIN(completed_at)
+    LIMIT 1;
+
+    SELECT COUNT(*) INTO v_completed
+    FROM task_executions
+    WHERE work_unit_id = p_work_unit_id AND status = 'completed';
+
+    PERFORM set_config('dedsec.verifier', 'on', true);
+
+    IF COALESCE(v_top_votes, 0) >= v_quorum THEN
+        UPDATE work_units
+        SET status = 'verified',
+            verified_hash = v_top_hash,
+            verified_result = (
+                SELECT result_data FROM task_executions
+                WHERE work_unit_id = p_work_unit_id AND verification_hash = v_top_hash
+                ORDER BY completed_at LIMIT 1
+            ),
+            verified_at = COALESCE(verified_at, NOW())
+        WHERE id = p_work_unit_id;
+
+        UPDATE task_executions
+        SET verification_status = 'verified'
+        WHERE work_unit_id = p_work_unit_id
+          AND status = 'completed'
+          AND verification_hash = v_top_hash
+          AND verification_status <> 'verified';
+
+        -- Flag every execution that disagrees with the accepted hash
+        FOR v_rejected IN
+            UPDATE task_executions
+            SET verification_status = 'rejected'
+            WHERE work_unit_id = p_work_unit_id
+              AND status = 'completed'
+              AND verification_hash IS DISTINCT FROM v_top_hash
+              AND verification_status <> 'rejected'
+            RETURNING id, user_id, device_id, verification_hash
+        LOOP
+            PERFORM log_compromise_event(
+                v_rejected.user_id,
+                'result_verification_failed',
+                'medium',
+                'Task execution result disagreed with the verified quorum',
+                jsonb_build_object(
+                    'execution_id', v_rejected.id,
+                    'work_unit_id', p_work_unit_id,
+                    'device_id', v_rejected.device_id,
+                    'reported_hash', v_rejected.verification_hash,
+                    'accepted_hash', v_top_hash
+                )
+            );
+        END LOOP;
+
+        v_status := 'verified';
+    ELSIF v_completed >= v_replication THEN
+        UPDATE work_units SET status = 'disputed' WHERE id = p_work_unit_id AND status = 'pending';
+        v_status := 'disputed';
+    ELSE
+        v_status := 'pending';
+    END IF;
+
+    PERFORM set_config('dedsec.verifier', 'off', true);
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-run verification for every unit that still has unsettled results
+CREATE OR REPLACE FUNCTION verify_pending_work_units()
+RETURNS INTEGER AS $$
+DECLARE
+    v_unit RECORD;
+    v_verified INTEGER := 0;
+BEGIN
+    FOR v_unit IN
+        SELECT DISTINCT te.work_unit_id AS id
+        FROM task_executions te
+        WHERE te.work_unit_id IS NOT NULL
+          AND te.status = 'completed'
+          AND te.verification_status = 'pending'
+    LOOP
+        IF verify_work_unit(v_unit.id) = 'verified' THEN
+            v_verified := v_verified + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_verified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify as soon as a replica reports a completed result
+CREATE OR REPLACE FUNCTION public.verify_on_execution_complete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.work_unit_id IS NOT NULL AND NEW.status = 'completed'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM verify_work_unit(NEW.work_unit_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS verify_on_execution_complete_trigger ON public.task_executions;
+CREATE TRIGGER verify_on_execution_complete_trigger
+  AFTER INSERT OR UPDATE OF status ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.verify_on_execution_complete();
+
+-- ============================================================================
+-- 5. VERIFIED-ONLY CONTRIBUTION CREDIT
+-- ============================================================================
+
+-- Same shape as before, but completed work only earns credit once it is verified
+CREATE OR REPLACE FUNCTION get_contribution_leaderboard(
+    p_days INTEGER DEFAULT 30,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    rank BIGINT,
+    user_id UUID,
+    username VARCHAR(50),
+    total_tasks BIGINT,
+    completed_tasks BIGINT,
+    total_cpu_time_seconds BIGINT,
+    total_memory_usage_mb BIGINT,
+    success_rate NUMERIC,
+    contribution_score NUMERIC
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH user_stats AS (
+        SELECT
+            te.user_id,
+            u.username,
+            COUNT(*) as total_tasks,
+            COUNT(*) FILTER (WHERE te.status = 'completed' AND te.verification_status = 'verified') as completed_tasks,
+            COALESCE(SUM(te.cpu_time_seconds) FILTER (WHERE te.verification_status = 'verified'), 0) as total_cpu_time_seconds,
+            COALESCE(SUM(te.memory_usage_mb) FILTER (WHERE te.verification_status = 'verified'), 0) as total_memory_usage_mb,
+            CASE
+                WHEN COUNT(*) > 0 THEN
+                    (COUNT(*) FILTER (WHERE te.status = 'completed' AND te.verification_status = 'verified')::NUMERIC / COUNT(*)::NUMERIC) * 100
+                ELSE 0
+            END as success_rate
+        FROM task_executions te
+        JOIN users u ON u.id = te.user_id
+        WHERE te.created_at >= NOW() - (p_days || ' days')::INTERVAL
+        GROUP BY te.user_id, u.username
+    )
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY
+            (us.total_cpu_time_seconds * 0.4 + us.total_memory_usage_mb * 0.3 + us.completed_tasks * 0.3) DESC
+        ) as rank,
+        us.user_id,
+        us.username,
+        us.total_tasks,
+        us.completed_tasks,
+        us.total_cpu_time_seconds::BIGINT,
+        us.total_memory_usage_mb::BIGINT,
+        us.success_rate,
+        (us.total_cpu_time_seconds * 0.4 + us.total_memory_usage_mb * 0.3 + us.completed_tasks * 0.3) as contribution_score
+    FROM user_stats us
+    ORDER BY contribution_score DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. MAINTENANCE
+-- ============================================================================
+
+-- Scheduled maintenance now also settles any units whose verification was missed
+CREATE OR REPLACE FUNCTION scheduled_maintenance()
+RETURNS TEXT AS $$
+DECLARE
+    result_text TEXT := '';
+    deleted_count INTEGER;
+BEGIN
+    -- Settle outstanding work unit verifications
+    result_text := result_text || format('Verified %s work units. ', verify_pending_work_units());
+
+    -- Clean up old task executions (older than 90 days)
+    DELETE FROM task_executions
+    WHERE created_at < NOW() - INTERVAL '90 days';
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    result_text := result_text || format('Deleted %s old task executions. ', deleted_count);
+
+    -- Clean up old compromise logs (older than 180 days)
+    DELETE FROM compromise_logs
+    WHERE created_at < NOW() - INTERVAL '180 days' AND resolved = TRUE;
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    result_text := result_text || format('Deleted %s resolved compromise logs. ', deleted_count);
+
+    -- Clean up old worker heartbeats (older than 7 days)
+    DELETE FROM worker_heartbeats
+    WHERE updated_at < NOW() - INTERVAL '7 days';
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    result_text := result_text || format('Deleted %s old worker heartbeats. ', deleted_count);
+
+    -- Update leaderboard caches
+    PERFORM update_leaderboard_cache('contribution', 'daily');
+    PERFORM update_leaderboard_cache('contribution', 'weekly');
+    PERFORM update_leaderboard_cache('contribution', 'monthly');
+    result_text := result_text || 'Updated leaderboard caches. ';
+
+    -- Update network metrics
+    INSERT INTO network_metrics (
+        active_users,
+        total_cpu_cores,
+        total_memory_gb,
+        operations_per_second,
+        network_efficiency,
+        average_latency_ms
+    )
+    SELECT
+        (SELECT COUNT(DISTINCT user_id) FROM user_sessions WHERE last_active >= NOW() - INTERVAL '1 hour'),
+        (SELECT COALESCE(SUM((hardware_specs->>'cpu_cores')::INTEGER), 0) FROM user_sessions WHERE is_contributing = TRUE),
+        (SELECT COALESCE(SUM((hardware_specs->>'total_memory_gb')::NUMERIC), 0) FROM user_sessions WHERE is_contributing = TRUE),
+        (SELECT COUNT(*) FROM task_executions WHERE created_at >= NOW() - INTERVAL '1 minute')::DECIMAL / 60,
+        75.0, -- Default efficiency
+        50    -- Default latency
+    ;
+    result_text := result_text || 'Updated network metrics. ';
+
+    RETURN result_text || 'Maintenance completed successfully.';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION request_work_unit TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_work_unit TO service_role;
+GRANT EXECUTE ON FUNCTION verify_pending_work_units TO service_role;
+GRANT EXECUTE ON FUNCTION get_contribution_leaderboard TO authenticated;
+GRANT EXECUTE ON FUNCTION scheduled_maintenance TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Work unit verification setup completed successfully!';
+  RAISE NOTICE 'Work units: %', (SELECT COUNT(*) FROM public.work_units);
+END;
+$$;
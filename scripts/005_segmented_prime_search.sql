@@ -0,0 +1,174 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - SEGMENTED PRIME SEARCH WORK UNITS
+-- ============================================================================
+-- This script splits prime_search operations over huge ranges into many
+-- [range_start, range_end) work units and merges their verified counts
+-- Run this AFTER 004_work_unit_verification.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Operation-level result merged from verified work units
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS aggregate_result JSONB,
+ADD COLUMN IF NOT EXISTS aggregate_updated_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- 2. SPLITTING
+-- ============================================================================
+
+-- Replace an operation's unstarted units with one unit per unit_size slice of its range
+CREATE OR REPLACE FUNCTION split_prime_search(p_operation_id UUID, p_unit_size BIGINT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_parameters JSONB;
+    v_range_start BIGINT;
+    v_range_end BIGINT;
+    v_unit_count BIGINT;
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin = TRUE) THEN
+        RAISE EXCEPTION 'Only admins can split operations';
+    END IF;
+
+    SELECT parameters INTO v_parameters FROM operations WHERE id = p_operation_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Operation % not found', p_operation_id;
+    END IF;
+
+    v_range_start := COALESCE((v_parameters->>'range_start')::BIGINT, 0);
+    v_range_end := (v_parameters->>'range_end')::BIGINT;
+
+    IF v_range_end IS NULL OR v_range_end <= v_range_start THEN
+        RAISE EXCEPTION 'Operation % needs range_start < range_end to be split', p_operation_id;
+    END IF;
+    IF v_range_end > 9007199254740992 THEN
+        RAISE EXCEPTION 'range_end exceeds the 2^53 limit of the prime_search kernel';
+    END IF;
+    IF p_unit_size IS NULL OR p_unit_size < 1000 THEN
+        RAISE EXCEPTION 'unit_size must be at least 1000';
+    END IF;
+
+    v_unit_count := CEIL((v_range_end - v_range_start)::NUMERIC / p_unit_size);
+    IF v_unit_count > 100000 THEN
+        RAISE EXCEPTION 'Split would create % units (max 100000); use a larger unit_size', v_unit_count;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM task_executions te
+        JOIN work_units wu ON wu.id = te.work_unit_id
+        WHERE wu.operation_id = p_operation_id
+    ) THEN
+        RAISE EXCEPTION 'Operation % already has executions and cannot be re-split', p_operation_id;
+    END IF;
+
+    DELETE FROM work_units WHERE operation_id = p_operation_id;
+
+    INSERT INTO work_units (operation_id, unit_index, parameters)
+    SELECT
+        p_operation_id,
+        i::INTEGER,
+        (v_parameters - 'unit_size')
+            || jsonb_build_object(
+                'range_start', v_range_start + i * p_unit_size,
+                'range_end', LEAST(v_range_start + (i + 1) * p_unit_size, v_range_end)
+            )
+    FROM generate_series(0, v_unit_count - 1) AS i;
+
+    UPDATE operations SET aggregate_result = NULL, aggregate_updated_at = NULL WHERE id = p_operation_id;
+
+    RETURN v_unit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Operations whose parameters carry unit_size and range_end are split on creation
+CREATE OR REPLACE FUNCTION public.create_default_work_unit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parameters ? 'unit_size' AND NEW.parameters ? 'range_end' THEN
+    PERFORM split_prime_search(NEW.id, (NEW.parameters->>'unit_size')::BIGINT);
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.work_units (operation_id, unit_index, parameters)
+  VALUES (NEW.id, 0, COALESCE(NEW.parameters, '{}'))
+  ON CONFLICT (operation_id, unit_index) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. MERGING
+-- ============================================================================
+
+-- Build the global prime count for an operation from its verified units
+CREATE OR REPLACE FUNCTION merge_prime_search(p_operation_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    SELECT jsonb_build_object(
+        'kind', 'prime_search',
+        'units_total', COUNT(*),
+        'units_verified', COUNT(*) FILTER (WHERE wu.status = 'verified'),
+        'complete', COUNT(*) = COUNT(*) FILTER (WHERE wu.status = 'verified'),
+        'range_start', MIN((wu.parameters->>'range_start')::BIGINT),
+        'range_end', MAX((wu.parameters->>'range_end')::BIGINT),
+        'verified_span', COALESCE(SUM(
+            (wu.parameters->>'range_end')::BIGINT - (wu.parameters->>'range_start')::BIGINT
+        ) FILTER (WHERE wu.status = 'verified'), 0),
+        'prime_count', COALESCE(SUM((wu.verified_result->>'total_primes_found')::BIGINT) FILTER (WHERE wu.status = 'verified'), 0),
+        'prime_sum', COALESCE(SUM((wu.verified_result->>'prime_sum')::NUMERIC) FILTER (WHERE wu.status = 'verified'), 0)::TEXT,
+        'smallest_prime', MIN((wu.verified_result->>'smallest_prime')::BIGINT) FILTER (WHERE wu.status = 'verified'),
+        'largest_prime', MAX((wu.verified_result->>'largest_prime')::BIGINT) FILTER (WHERE wu.status = 'verified')
+    )
+    INTO v_result
+    FROM work_units wu
+    WHERE wu.operation_id = p_operation_id;
+
+    UPDATE operations
+    SET aggregate_result = v_result,
+        aggregate_updated_at = NOW()
+    WHERE id = p_operation_id;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refresh the merged count whenever a prime search unit is verified
+CREATE OR REPLACE FUNCTION public.merge_on_prime_unit_verified()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified'
+     AND NEW.verified_result ? 'total_primes_found' AND NEW.parameters ? 'range_end' THEN
+    PERFORM merge_prime_search(NEW.operation_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS merge_on_prime_unit_verified_trigger ON public.work_units;
+CREATE TRIGGER merge_on_prime_unit_verified_trigger
+  AFTER UPDATE OF status ON public.work_units
+  FOR EACH ROW EXECUTE FUNCTION public.merge_on_prime_unit_verified();
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION split_prime_search FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION split_prime_search FROM anon;
+GRANT EXECUTE ON FUNCTION split_prime_search TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_prime_search TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Segmented prime search setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - TASK CHECKPOINT / RESUME STATUSES
+-- ============================================================================
+-- Clients checkpoint long-running tasks locally and resume them after a
+-- reload, so executions can now be 'paused' and later 'resumed'
+-- Run this AFTER 005_segmented_prime_search.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+ALTER TABLE public.task_executions
+DROP CONSTRAINT IF EXISTS task_executions_status_check;
+
+ALTER TABLE public.task_executions
+ADD CONSTRAINT task_executions_status_check
+  CHECK (status IN ('pending', 'running', 'paused', 'resumed', 'completed', 'failed', 'cancelled'));
+
+-- When the execution was last paused, and progress recorded at that point
+ALTER TABLE public.task_executions
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS checkpoint_operations BIGINT DEFAULT 0;
+
+-- ============================================================================
+-- 2. WORK UNIT REPLICAS
+-- ============================================================================
+
+-- Paused and resumed executions still hold their replica slot on the unit
+CREATE OR REPLACE FUNCTION request_work_unit(p_operation_id UUID, p_device_id TEXT)
+RETURNS TABLE (
+    work_unit_id UUID,
+    unit_index INTEGER,
+    parameters JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT wu.id, wu.unit_index, wu.parameters
+    FROM work_units wu
+    JOIN operations o ON o.id = wu.operation_id
+    WHERE wu.operation_id = p_operation_id
+      AND o.is_active = TRUE
+      AND wu.status IN ('pending', 'disputed')
+      AND NOT EXISTS (
+          SELECT 1 FROM task_executions te
+          WHERE te.work_unit_id = wu.id
+            AND (te.user_id = auth.uid() OR te.device_id = p_device_id)
+      )
+      AND (
+          SELECT COUNT(*) FROM task_executions te
+          WHERE te.work_unit_id = wu.id AND te.status IN ('running', 'paused', 'resumed', 'completed')
+      ) < CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END
+    ORDER BY wu.unit_index
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Task checkpoint statuses setup completed successfully!';
+END;
+$$;
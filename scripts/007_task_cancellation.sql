@@ -0,0 +1,25 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - TASK CANCELLATION
+-- ============================================================================
+-- Clients now abort in-flight tasks and record them as 'cancelled' together
+-- with the number of operations finished before the abort
+-- Run this AFTER 006_task_checkpoints.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Partial work done by executions that were cancelled mid-run
+ALTER TABLE public.task_executions
+ADD COLUMN IF NOT EXISTS operations_completed BIGINT DEFAULT 0;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Task cancellation setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - OPERATION TASK TYPES
+-- ============================================================================
+-- Operations now name the registered task type they run instead of relying
+-- on the operation name, so new workloads need no client-side mapping
+-- Run this AFTER 007_task_cancellation.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Id of a task type in lib/task-types.ts; NULL falls back to name matching
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS task_type TEXT;
+
+-- ============================================================================
+-- 2. BACKFILL
+-- ============================================================================
+
+UPDATE public.operations
+SET task_type = CASE name
+    WHEN 'OPERATION_PRIME_SWEEP' THEN 'prime_search'
+    WHEN 'OPERATION_CRYPTO_ANALYSIS' THEN 'crypto_analysis'
+    WHEN 'OPERATION_DATA_MATRIX' THEN 'matrix_operations'
+    ELSE 'hash_computation'
+END
+WHERE task_type IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_operations_task_type ON public.operations(task_type);
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Operation task types setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - SANDBOXED WASM KERNELS
+-- ============================================================================
+-- Admins publish WebAssembly kernels to the wasm-kernels bucket; operations
+-- of task_type 'wasm_kernel' pin a module by storing its SHA-256 as task_hash
+-- Run this AFTER 008_operation_task_types.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. STORAGE
+-- ============================================================================
+
+-- Public read: workers verify every module against task_hash before running it
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'wasm-kernels',
+  'wasm-kernels',
+  true,
+  16777216, -- 16MB limit
+  ARRAY['application/wasm', 'application/octet-stream']
+)
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Anyone can read wasm kernels" ON storage.objects;
+CREATE POLICY "Anyone can read wasm kernels" ON storage.objects
+FOR SELECT USING (bucket_id = 'wasm-kernels');
+
+DROP POLICY IF EXISTS "Admins can manage wasm kernels" ON storage.objects;
+CREATE POLICY "Admins can manage wasm kernels" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'wasm-kernels'
+  AND EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND is_admin = TRUE)
+)
+WITH CHECK (
+  bucket_id = 'wasm-kernels'
+  AND EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND is_admin = TRUE)
+);
+
+-- ============================================================================
+-- 2. OPERATIONS
+-- ============================================================================
+
+-- A kernel operation must carry the module's content hash
+ALTER TABLE public.operations
+DROP CONSTRAINT IF EXISTS operations_wasm_kernel_hash_check;
+
+ALTER TABLE public.operations
+ADD CONSTRAINT operations_wasm_kernel_hash_check
+  CHECK (task_type IS DISTINCT FROM 'wasm_kernel' OR task_hash ~ '^[0-9a-f]{64}$');
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM storage.buckets WHERE id = 'wasm-kernels') THEN
+    RAISE NOTICE '✅ WASM kernel setup completed successfully!';
+  ELSE
+    RAISE EXCEPTION '❌ WASM kernel setup failed - bucket not created';
+  END IF;
+END;
+$$;
@@ -0,0 +1,207 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - VERIFIABLE PROOF-OF-WORK
+-- ============================================================================
+-- Results are submitted through submit_task_result, which hashes the result
+-- itself, recomputes the client's proof-of-work against that hash and rejects
+-- executions whose proof does not check out
+-- Run this AFTER 009_wasm_kernels.sql
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Leading zero bits required of sha256(challenge || ':' || nonce)
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS pow_difficulty INTEGER NOT NULL DEFAULT 12
+  CHECK (pow_difficulty BETWEEN 0 AND 24);
+
+-- The proof exactly as the client submitted it
+ALTER TABLE public.task_executions
+ADD COLUMN IF NOT EXISTS proof_of_work JSONB;
+
+-- ============================================================================
+-- 2. VERIFICATION
+-- ============================================================================
+
+-- Check a proof against an execution: the challenge must be bound to the
+-- result's hash and the execution's id, meet the operation's difficulty, and
+-- hash to what the client claimed
+CREATE OR REPLACE FUNCTION verify_proof_of_work(
+    p_execution_id UUID,
+    p_result_hash TEXT,
+    p_proof JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_difficulty INTEGER;
+    v_challenge TEXT;
+    v_nonce BIGINT;
+    v_hash TEXT;
+BEGIN
+    SELECT o.pow_difficulty INTO v_difficulty
+    FROM task_executions te
+    JOIN operations o ON o.id = te.operation_id
+    WHERE te.id = p_execution_id;
+
+    IF NOT FOUND OR p_proof IS NULL OR p_result_hash IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    v_challenge := p_result_hash || ':' || p_execution_id::TEXT;
+
+    IF p_proof->>'algorithm' IS DISTINCT FROM 'sha256'
+       OR p_proof->>'challenge' IS DISTINCT FROM v_challenge
+       OR (p_proof->>'difficulty')::INTEGER IS DISTINCT FROM v_difficulty
+       OR jsonb_typeof(p_proof->'nonce') <> 'number' THEN
+        RETURN FALSE;
+    END IF;
+
+    v_nonce := (p_proof->>'nonce')::BIGINT;
+    v_hash := encode(extensions.digest(v_challenge || ':' || v_nonce::TEXT, 'sha256'), 'hex');
+
+    IF v_hash <> p_proof->>'hash' THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Leading 32 bits of the hash as an unsigned integer
+    RETURN ('x' || lpad(substr(v_hash, 1, 8), 16, '0'))::BIT(64)::BIGINT < power(2, 32 - v_difficulty)::BIGINT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. SUBMISSION
+-- ============================================================================
+
+-- Only submit_task_result may mark an execution completed
+CREATE OR REPLACE FUNCTION public.require_result_submission()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed')
+     AND COALESCE(current_setting('dedsec.submission', true), '') <> 'on'
+     AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Task results must be submitted through submit_task_result';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS require_result_submission_trigger ON public.task_executions;
+CREATE TRIGGER require_result_submission_trigger
+  BEFORE INSERT OR UPDATE OF status ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.require_result_submission();
+
+-- Replaces 004's version: a result and the figures that earn credit for it are
+-- now written only by submit_task_result, so clients cannot set them directly
+-- or rewrite them after the proof has been checked
+CREATE OR REPLACE FUNCTION public.protect_execution_result()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('dedsec.submission', true), '') <> 'on'
+     AND COALESCE(current_setting('dedsec.verifier', true), '') <> 'on'
+     AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.result_data := NULL;
+      NEW.verification_hash := NULL;
+      NEW.compute_time_ms := NULL;
+      NEW.cpu_time_seconds := NULL;
+      NEW.memory_usage_mb := NULL;
+    ELSE
+      NEW.result_data := OLD.result_data;
+      NEW.verification_hash := OLD.verification_hash;
+      NEW.work_unit_id := OLD.work_unit_id;
+      NEW.compute_time_ms := OLD.compute_time_ms;
+      NEW.cpu_time_seconds := OLD.cpu_time_seconds;
+      NEW.memory_usage_mb := OLD.memory_usage_mb;
+      IF OLD.status = 'completed' THEN
+        NEW.status := OLD.status;
+      END IF;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Accept a result if its proof-of-work verifies; otherwise fail the execution.
+-- Returns 'completed', 'rejected' or 'missing'.
+CREATE OR REPLACE FUNCTION submit_task_result(
+    p_execution_id UUID,
+    p_result_data JSONB,
+    p_proof_of_work JSONB,
+    p_compute_time_ms INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_execution RECORD;
+    v_hash TEXT;
+BEGIN
+    SELECT id, user_id, device_id, status INTO v_execution
+    FROM task_executions
+    WHERE id = p_execution_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_execution.status NOT IN ('running', 'resumed') THEN
+        RETURN 'missing';
+    END IF;
+
+    -- The hash replicas vote with, and the one the proof must be bound to
+    v_hash := result_hash(p_result_data);
+
+    IF NOT verify_proof_of_work(p_execution_id, v_hash, p_proof_of_work) THEN
+        UPDATE task_executions
+        SET status = 'failed',
+            error_message = 'Invalid proof of work',
+            proof_of_work = p_proof_of_work,
+            completed_at = NOW()
+        WHERE id = p_execution_id;
+
+        PERFORM log_compromise_event(
+            v_execution.user_id,
+            'proof_of_work_invalid',
+            'medium',
+            'Task result submitted with a proof-of-work that does not verify',
+            jsonb_build_object(
+                'execution_id', p_execution_id,
+                'device_id', v_execution.device_id
+            )
+        );
+        RETURN 'rejected';
+    END IF;
+
+    PERFORM set_config('dedsec.submission', 'on', true);
+
+    UPDATE task_executions
+    SET result_data = p_result_data,
+        verification_hash = v_hash,
+        proof_of_work = p_proof_of_work,
+        status = 'completed',
+        compute_time_ms = p_compute_time_ms,
+        completed_at = NOW()
+    WHERE id = p_execution_id;
+
+    PERFORM set_config('dedsec.submission', 'off', true);
+
+    RETURN 'completed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION verify_proof_of_work TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_task_result TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Proof-of-work verification setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,104 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - PER-DEVICE WORK UNIT SIZING
+-- ============================================================================
+-- Clients benchmark each task type (stored in user_sessions.hardware_specs
+-- under 'calibration') and may carve an untouched range unit down to what
+-- they finish in their target time; the remainder becomes a new unit
+-- Run this AFTER 010_proof_of_work.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SPLITTING
+-- ============================================================================
+
+-- Replace a pending unit's parameters with p_head and queue p_tail as a new unit.
+-- Only ranges [range_start, range_end) and [keyspace_start, keyspace_end) can be
+-- split; head and tail must tile the unit's current range, each at least 1000
+-- wide, with every other parameter unchanged, and no replica may exist yet.
+-- Returns the unit's parameters afterwards: p_head if the split was applied,
+-- otherwise whatever the unit currently holds (e.g. after a concurrent split).
+CREATE OR REPLACE FUNCTION split_work_unit(
+    p_work_unit_id UUID,
+    p_head JSONB,
+    p_tail JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_unit RECORD;
+    v_start_key TEXT;
+    v_end_key TEXT;
+    v_start BIGINT;
+    v_end BIGINT;
+    v_boundary BIGINT;
+BEGIN
+    IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT wu.id, wu.operation_id, wu.parameters, wu.status INTO v_unit
+    FROM work_units wu
+    JOIN operations o ON o.id = wu.operation_id
+    WHERE wu.id = p_work_unit_id
+      AND o.is_active = TRUE
+    FOR UPDATE OF wu;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_unit.status <> 'pending'
+       OR EXISTS (SELECT 1 FROM task_executions WHERE work_unit_id = p_work_unit_id) THEN
+        RETURN v_unit.parameters;
+    END IF;
+
+    IF v_unit.parameters ? 'range_end' THEN
+        v_start_key := 'range_start';
+        v_end_key := 'range_end';
+    ELSIF v_unit.parameters ? 'keyspace_end' THEN
+        v_start_key := 'keyspace_start';
+        v_end_key := 'keyspace_end';
+    ELSE
+        RETURN v_unit.parameters;
+    END IF;
+
+    v_start := COALESCE((v_unit.parameters->>v_start_key)::BIGINT, 0);
+    v_end := (v_unit.parameters->>v_end_key)::BIGINT;
+    v_boundary := (p_head->>v_end_key)::BIGINT;
+
+    IF (p_head->>v_start_key)::BIGINT IS DISTINCT FROM v_start
+       OR (p_tail->>v_start_key)::BIGINT IS DISTINCT FROM v_boundary
+       OR (p_tail->>v_end_key)::BIGINT IS DISTINCT FROM v_end
+       OR v_boundary - v_start < 1000
+       OR v_end - v_boundary < 1000
+       OR (p_head - v_start_key - v_end_key) <> (v_unit.parameters - v_start_key - v_end_key)
+       OR (p_tail - v_start_key - v_end_key) <> (v_unit.parameters - v_start_key - v_end_key)
+       OR (SELECT COUNT(*) FROM work_units WHERE operation_id = v_unit.operation_id) >= 100000 THEN
+        RETURN v_unit.parameters;
+    END IF;
+
+    UPDATE work_units SET parameters = p_head WHERE id = p_work_unit_id;
+
+    INSERT INTO work_units (operation_id, unit_index, parameters)
+    SELECT v_unit.operation_id, MAX(unit_index) + 1, p_tail
+    FROM work_units
+    WHERE operation_id = v_unit.operation_id;
+
+    RETURN p_head;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION split_work_unit TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Work unit sizing setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,210 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - MONTE CARLO SIMULATIONS
+-- ============================================================================
+-- monte_carlo operations are split into independently seeded units; each
+-- verified unit contributes count/mean/M2/histogram to an exact merge stored
+-- in operations.aggregate_result
+-- Run this AFTER 011_work_unit_sizing.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SPLITTING
+-- ============================================================================
+
+-- Replace an operation's units with p_units copies of its parameters, each
+-- seeded with <seed or task_hash>:<unit index> so no two units draw the same samples
+CREATE OR REPLACE FUNCTION split_monte_carlo(p_operation_id UUID, p_units INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    v_parameters JSONB;
+    v_seed TEXT;
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin = TRUE) THEN
+        RAISE EXCEPTION 'Only admins can split operations';
+    END IF;
+
+    SELECT parameters, COALESCE(NULLIF(parameters->>'seed', ''), task_hash)
+    INTO v_parameters, v_seed
+    FROM operations WHERE id = p_operation_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Operation % not found', p_operation_id;
+    END IF;
+
+    IF p_units IS NULL OR p_units < 1 OR p_units > 100000 THEN
+        RAISE EXCEPTION 'units must be between 1 and 100000';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM task_executions te
+        JOIN work_units wu ON wu.id = te.work_unit_id
+        WHERE wu.operation_id = p_operation_id
+    ) THEN
+        RAISE EXCEPTION 'Operation % already has executions and cannot be re-split', p_operation_id;
+    END IF;
+
+    DELETE FROM work_units WHERE operation_id = p_operation_id;
+
+    INSERT INTO work_units (operation_id, unit_index, parameters)
+    SELECT
+        p_operation_id,
+        i,
+        (v_parameters - 'units') || jsonb_build_object('seed', v_seed || ':' || i)
+    FROM generate_series(0, p_units - 1) AS i;
+
+    UPDATE operations SET aggregate_result = NULL, aggregate_updated_at = NULL WHERE id = p_operation_id;
+
+    RETURN p_units;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Prime searches with unit_size and Monte Carlo runs with units are split on creation
+CREATE OR REPLACE FUNCTION public.create_default_work_unit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parameters ? 'unit_size' AND NEW.parameters ? 'range_end' THEN
+    PERFORM split_prime_search(NEW.id, (NEW.parameters->>'unit_size')::BIGINT);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.task_type = 'monte_carlo' AND NEW.parameters ? 'units' THEN
+    PERFORM split_monte_carlo(NEW.id, (NEW.parameters->>'units')::INTEGER);
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.work_units (operation_id, unit_index, parameters)
+  VALUES (NEW.id, 0, COALESCE(NEW.parameters, '{}'))
+  ON CONFLICT (operation_id, unit_index) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. MERGING
+-- ============================================================================
+
+-- Exact merge of the verified units' sufficient statistics:
+--   n = Σ nᵢ,  mean = Σ nᵢ·meanᵢ / n,  M2 = Σ M2ᵢ + Σ nᵢ·(meanᵢ − mean)²
+-- Histograms share their bounds across units and are summed bin by bin
+CREATE OR REPLACE FUNCTION merge_monte_carlo(p_operation_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_units_total INTEGER;
+    v_units_verified INTEGER;
+    v_count NUMERIC;
+    v_mean NUMERIC;
+    v_m2 NUMERIC;
+    v_min NUMERIC;
+    v_max NUMERIC;
+    v_histogram JSONB;
+    v_simulation TEXT;
+    v_result JSONB;
+BEGIN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE status = 'verified')
+    INTO v_units_total, v_units_verified
+    FROM work_units
+    WHERE operation_id = p_operation_id;
+
+    WITH units AS (
+        SELECT
+            (verified_result->'statistics'->>'count')::NUMERIC AS n,
+            (verified_result->'statistics'->>'mean')::NUMERIC AS mean,
+            (verified_result->'statistics'->>'m2')::NUMERIC AS m2,
+            (verified_result->'statistics'->>'min')::NUMERIC AS min,
+            (verified_result->'statistics'->>'max')::NUMERIC AS max,
+            verified_result->'histogram' AS histogram,
+            verified_result->>'simulation' AS simulation
+        FROM work_units
+        WHERE operation_id = p_operation_id
+          AND status = 'verified'
+          AND verified_result ? 'statistics'
+    ),
+    totals AS (
+        SELECT SUM(n) AS n, SUM(n * mean) / NULLIF(SUM(n), 0) AS mean
+        FROM units
+    )
+    SELECT
+        totals.n,
+        totals.mean,
+        (SELECT SUM(u.m2 + u.n * (u.mean - totals.mean) ^ 2) FROM units u),
+        (SELECT MIN(u.min) FROM units u),
+        (SELECT MAX(u.max) FROM units u),
+        (SELECT MIN(u.simulation) FROM units u),
+        jsonb_build_object(
+            'min', (SELECT MIN((u.histogram->>'min')::NUMERIC) FROM units u),
+            'max', (SELECT MAX((u.histogram->>'max')::NUMERIC) FROM units u),
+            'underflow', (SELECT COALESCE(SUM((u.histogram->>'underflow')::BIGINT), 0) FROM units u),
+            'overflow', (SELECT COALESCE(SUM((u.histogram->>'overflow')::BIGINT), 0) FROM units u),
+            'counts', COALESCE((
+                SELECT jsonb_agg(summed.total ORDER BY summed.idx)
+                FROM (
+                    SELECT bins.idx, SUM(bins.value::BIGINT) AS total
+                    FROM units u,
+                         jsonb_array_elements_text(u.histogram->'counts') WITH ORDINALITY AS bins(value, idx)
+                    GROUP BY bins.idx
+                ) summed
+            ), '[]'::JSONB)
+        )
+    INTO v_count, v_mean, v_m2, v_min, v_max, v_simulation, v_histogram
+    FROM totals;
+
+    v_result := jsonb_build_object(
+        'kind', 'monte_carlo',
+        'simulation', v_simulation,
+        'units_total', v_units_total,
+        'units_verified', v_units_verified,
+        'complete', v_units_total = v_units_verified,
+        'count', COALESCE(v_count, 0),
+        'mean', v_mean,
+        'm2', v_m2,
+        'variance', CASE WHEN v_count > 1 THEN v_m2 / (v_count - 1) END,
+        'standard_error', CASE WHEN v_count > 1 THEN sqrt(v_m2 / (v_count - 1) / v_count) END,
+        'min', v_min,
+        'max', v_max,
+        'histogram', v_histogram
+    );
+
+    UPDATE operations
+    SET aggregate_result = v_result,
+        aggregate_updated_at = NOW()
+    WHERE id = p_operation_id;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refresh the merged estimate whenever a Monte Carlo unit is verified
+CREATE OR REPLACE FUNCTION public.merge_on_monte_carlo_unit_verified()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified'
+     AND NEW.verified_result ? 'statistics' AND NEW.verified_result ? 'histogram' THEN
+    PERFORM merge_monte_carlo(NEW.operation_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS merge_on_monte_carlo_unit_verified_trigger ON public.work_units;
+CREATE TRIGGER merge_on_monte_carlo_unit_verified_trigger
+  AFTER UPDATE OF status ON public.work_units
+  FOR EACH ROW EXECUTE FUNCTION public.merge_on_monte_carlo_unit_verified();
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION split_monte_carlo FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION split_monte_carlo FROM anon;
+GRANT EXECUTE ON FUNCTION split_monte_carlo TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_monte_carlo TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Monte Carlo simulation setup completed successfully!';
+END;
+$$;
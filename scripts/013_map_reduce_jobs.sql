@@ -0,0 +1,294 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - MAP/REDUCE JOBS
+-- ============================================================================
+-- Every operation is a job: its splitter generates the work units when it is
+-- created and its reducer combines the verified unit results into
+-- operations.job_result once the last unit is verified
+-- Run this AFTER 012_monte_carlo.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. JOB COLUMNS
+-- ============================================================================
+
+-- splitter: single   one unit with the operation's parameters
+--           range    [range_start, range_end) slices of unit_size (split_prime_search)
+--           seeded   units independently seeded copies (split_monte_carlo)
+--           list     one unit per entry of unit_parameters, merged over the rest
+-- reducer:  collect       verified results in unit order
+--           prime_search  merge_prime_search
+--           monte_carlo   merge_monte_carlo
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS splitter TEXT CHECK (splitter IN ('single', 'range', 'seeded', 'list')),
+ADD COLUMN IF NOT EXISTS reducer TEXT CHECK (reducer IN ('collect', 'prime_search', 'monte_carlo')),
+ADD COLUMN IF NOT EXISTS job_status TEXT NOT NULL DEFAULT 'running'
+  CHECK (job_status IN ('running', 'completed', 'failed')),
+ADD COLUMN IF NOT EXISTS job_result JSONB,
+ADD COLUMN IF NOT EXISTS job_completed_at TIMESTAMPTZ;
+
+-- Operations created without a splitter or reducer get the ones their parameters imply
+CREATE OR REPLACE FUNCTION public.default_operation_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.splitter IS NULL THEN
+    NEW.splitter := CASE
+      WHEN NEW.parameters ? 'unit_size' AND NEW.parameters ? 'range_end' THEN 'range'
+      WHEN NEW.task_type = 'monte_carlo' THEN 'seeded'
+      WHEN jsonb_typeof(NEW.parameters->'unit_parameters') = 'array' THEN 'list'
+      ELSE 'single'
+    END;
+  END IF;
+
+  IF NEW.reducer IS NULL THEN
+    NEW.reducer := CASE
+      WHEN NEW.task_type = 'prime_search' OR NEW.parameters ? 'range_end' THEN 'prime_search'
+      WHEN NEW.task_type = 'monte_carlo' THEN 'monte_carlo'
+      ELSE 'collect'
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS default_operation_job_trigger ON public.operations;
+CREATE TRIGGER default_operation_job_trigger
+  BEFORE INSERT ON public.operations
+  FOR EACH ROW EXECUTE FUNCTION public.default_operation_job();
+
+-- Existing operations keep the units they already have
+UPDATE public.operations
+SET splitter = CASE
+      WHEN parameters ? 'unit_size' AND parameters ? 'range_end' THEN 'range'
+      WHEN task_type = 'monte_carlo' THEN 'seeded'
+      ELSE 'single'
+    END,
+    reducer = CASE
+      WHEN task_type = 'prime_search' OR parameters ? 'range_end' THEN 'prime_search'
+      WHEN task_type = 'monte_carlo' THEN 'monte_carlo'
+      ELSE 'collect'
+    END
+WHERE splitter IS NULL OR reducer IS NULL;
+
+-- ============================================================================
+-- 2. SPLITTING
+-- ============================================================================
+
+-- Run the operation's splitter, replacing any units that have not been handed out yet
+CREATE OR REPLACE FUNCTION split_job(p_operation_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_operation RECORD;
+    v_units INTEGER;
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin = TRUE) THEN
+        RAISE EXCEPTION 'Only admins can split operations';
+    END IF;
+
+    SELECT id, parameters, splitter INTO v_operation FROM operations WHERE id = p_operation_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Operation % not found', p_operation_id;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM task_executions te
+        JOIN work_units wu ON wu.id = te.work_unit_id
+        WHERE wu.operation_id = p_operation_id
+    ) THEN
+        RAISE EXCEPTION 'Operation % already has executions and cannot be re-split', p_operation_id;
+    END IF;
+
+    CASE v_operation.splitter
+        WHEN 'range' THEN
+            IF v_operation.parameters ? 'unit_size' THEN
+                v_units := split_prime_search(p_operation_id, (v_operation.parameters->>'unit_size')::BIGINT);
+            ELSE
+                DELETE FROM work_units WHERE operation_id = p_operation_id;
+                INSERT INTO work_units (operation_id, unit_index, parameters)
+                VALUES (p_operation_id, 0, v_operation.parameters);
+                v_units := 1;
+            END IF;
+
+        WHEN 'seeded' THEN
+            v_units := split_monte_carlo(p_operation_id, COALESCE((v_operation.parameters->>'units')::INTEGER, 1));
+
+        WHEN 'list' THEN
+            IF jsonb_typeof(v_operation.parameters->'unit_parameters') IS DISTINCT FROM 'array'
+               OR jsonb_array_length(v_operation.parameters->'unit_parameters') = 0 THEN
+                RAISE EXCEPTION 'Operation % needs a non-empty unit_parameters array to be split', p_operation_id;
+            END IF;
+            IF jsonb_array_length(v_operation.parameters->'unit_parameters') > 100000 THEN
+                RAISE EXCEPTION 'Split would create % units (max 100000)',
+                    jsonb_array_length(v_operation.parameters->'unit_parameters');
+            END IF;
+            IF EXISTS (
+                SELECT 1 FROM jsonb_array_elements(v_operation.parameters->'unit_parameters') AS entry
+                WHERE jsonb_typeof(entry) <> 'object'
+            ) THEN
+                RAISE EXCEPTION 'Every unit_parameters entry must be an object';
+            END IF;
+
+            DELETE FROM work_units WHERE operation_id = p_operation_id;
+            INSERT INTO work_units (operation_id, unit_index, parameters)
+            SELECT p_operation_id, (entry.idx - 1)::INTEGER, (v_operation.parameters - 'unit_parameters') || entry.value
+            FROM jsonb_array_elements(v_operation.parameters->'unit_parameters') WITH ORDINALITY AS entry(value, idx);
+            GET DIAGNOSTICS v_units = ROW_COUNT;
+
+        ELSE
+            DELETE FROM work_units WHERE operation_id = p_operation_id;
+            INSERT INTO work_units (operation_id, unit_index, parameters)
+            VALUES (p_operation_id, 0, COALESCE(v_operation.parameters, '{}'));
+            v_units := 1;
+    END CASE;
+
+    UPDATE operations
+    SET job_status = 'running',
+        job_result = NULL,
+        job_completed_at = NULL
+    WHERE id = p_operation_id;
+
+    RETURN v_units;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- New operations are split by their splitter
+CREATE OR REPLACE FUNCTION public.create_default_work_unit()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM split_job(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. REDUCING
+-- ============================================================================
+
+-- Run the operation's reducer over its verified units and store the job result.
+-- Only reads verified results, so any worker's verification may trigger it.
+-- A reducer error marks the job failed instead of rolling back the verification.
+CREATE OR REPLACE FUNCTION reduce_job(p_operation_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_reducer TEXT;
+    v_units_total INTEGER;
+    v_units_verified INTEGER;
+    v_result JSONB;
+BEGIN
+    SELECT reducer INTO v_reducer FROM operations WHERE id = p_operation_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Operation % not found', p_operation_id;
+    END IF;
+
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE status = 'verified')
+    INTO v_units_total, v_units_verified
+    FROM work_units
+    WHERE operation_id = p_operation_id;
+
+    IF v_units_total = 0 OR v_units_verified < v_units_total THEN
+        RAISE EXCEPTION 'Operation % has % of % units verified', p_operation_id, v_units_verified, v_units_total;
+    END IF;
+
+    BEGIN
+        v_result := CASE v_reducer
+            WHEN 'prime_search' THEN merge_prime_search(p_operation_id)
+            WHEN 'monte_carlo' THEN merge_monte_carlo(p_operation_id)
+            ELSE (
+                SELECT jsonb_build_object(
+                    'kind', 'collect',
+                    'units_total', COUNT(*),
+                    'results', jsonb_agg(verified_result ORDER BY unit_index)
+                )
+                FROM work_units
+                WHERE operation_id = p_operation_id
+            )
+        END;
+
+        UPDATE operations
+        SET job_status = 'completed',
+            job_result = v_result,
+            job_completed_at = NOW()
+        WHERE id = p_operation_id;
+    EXCEPTION WHEN OTHERS THEN
+        v_result := jsonb_build_object('error', SQLERRM);
+
+        UPDATE operations
+        SET job_status = 'failed',
+            job_result = v_result,
+            job_completed_at = NOW()
+        WHERE id = p_operation_id;
+    END;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reduce once the last unit of a job is verified
+CREATE OR REPLACE FUNCTION public.reduce_on_job_unit_verified()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified'
+     AND NOT EXISTS (
+       SELECT 1 FROM public.work_units
+       WHERE operation_id = NEW.operation_id AND status <> 'verified'
+     ) THEN
+    PERFORM reduce_job(NEW.operation_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Named to fire after the merge_on_* triggers
+DROP TRIGGER IF EXISTS reduce_on_job_unit_verified_trigger ON public.work_units;
+CREATE TRIGGER reduce_on_job_unit_verified_trigger
+  AFTER UPDATE OF status ON public.work_units
+  FOR EACH ROW EXECUTE FUNCTION public.reduce_on_job_unit_verified();
+
+-- Jobs that finished before this migration
+SELECT reduce_job(o.id)
+FROM operations o
+WHERE EXISTS (SELECT 1 FROM work_units wu WHERE wu.operation_id = o.id)
+  AND NOT EXISTS (SELECT 1 FROM work_units wu WHERE wu.operation_id = o.id AND wu.status <> 'verified');
+
+-- ============================================================================
+-- 4. PROGRESS
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.job_progress
+WITH (security_invoker = true) AS
+SELECT
+    o.id AS operation_id,
+    o.job_status,
+    COUNT(wu.id)::INTEGER AS units_total,
+    (COUNT(wu.id) FILTER (WHERE wu.status = 'verified'))::INTEGER AS units_verified,
+    (COUNT(wu.id) FILTER (WHERE wu.status = 'disputed'))::INTEGER AS units_disputed
+FROM public.operations o
+LEFT JOIN public.work_units wu ON wu.operation_id = o.id
+GROUP BY o.id, o.job_status;
+
+CREATE INDEX IF NOT EXISTS idx_work_units_operation_status ON public.work_units(operation_id, status);
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION split_job FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION split_job FROM anon;
+GRANT EXECUTE ON FUNCTION split_job TO authenticated;
+
+-- Functions are executable by PUBLIC unless revoked; reduce_job only runs from the verification trigger
+REVOKE EXECUTE ON FUNCTION reduce_job FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION reduce_job FROM anon;
+REVOKE EXECUTE ON FUNCTION reduce_job FROM authenticated;
+GRANT EXECUTE ON FUNCTION reduce_job TO service_role;
+GRANT SELECT ON public.job_progress TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Map/reduce job setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,135 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - DEVICE TOKENS
+-- ============================================================================
+-- Long-lived credentials for headless contributors. Only the SHA-256 of each
+-- token is stored; /api/devices/session exchanges a token for a short-lived
+-- access token bound to the owning user and the token's device_id
+-- Run this AFTER 013_map_reduce_jobs.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TOKENS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.device_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 64),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  UNIQUE (user_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_tokens_user ON public.device_tokens(user_id);
+
+ALTER TABLE public.device_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Owners may list their tokens; creation and revocation go through the functions below
+DROP POLICY IF EXISTS "device_tokens_select_own" ON public.device_tokens;
+CREATE POLICY "device_tokens_select_own" ON public.device_tokens FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "device_tokens_system_all" ON public.device_tokens;
+CREATE POLICY "device_tokens_system_all" ON public.device_tokens FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- 2. DEVICE SESSIONS
+-- ============================================================================
+
+-- The device_id an access token from /api/devices/session is bound to; NULL for
+-- ordinary user sessions
+CREATE OR REPLACE FUNCTION device_session_id()
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN auth.jwt()->'app_metadata'->>'provider' = 'device_token'
+        THEN COALESCE(auth.jwt()->'app_metadata'->>'device_id', '')
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- A device session contributes compute and nothing else: it cannot edit the
+-- account, and it only sees and writes its own device's executions
+DROP POLICY IF EXISTS "users_update_not_device_session" ON public.users;
+CREATE POLICY "users_update_not_device_session" ON public.users
+  AS RESTRICTIVE FOR UPDATE
+  USING (device_session_id() IS NULL);
+
+DROP POLICY IF EXISTS "task_executions_device_session_own" ON public.task_executions;
+CREATE POLICY "task_executions_device_session_own" ON public.task_executions
+  AS RESTRICTIVE FOR ALL
+  USING (device_session_id() IS NULL OR device_id = device_session_id())
+  WITH CHECK (device_session_id() IS NULL OR device_id = device_session_id());
+
+-- ============================================================================
+-- 3. FUNCTIONS
+-- ============================================================================
+
+-- Issue a token for a new headless device; the plaintext is returned only once
+CREATE OR REPLACE FUNCTION create_device_token(p_name TEXT)
+RETURNS TABLE (
+    token_id UUID,
+    token TEXT,
+    device_id TEXT
+) AS $$
+DECLARE
+    v_token TEXT;
+    v_device_id TEXT;
+    v_token_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF device_session_id() IS NOT NULL THEN
+        RAISE EXCEPTION 'Device sessions cannot manage device tokens';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM device_tokens dt WHERE dt.user_id = auth.uid() AND dt.revoked_at IS NULL) >= 20 THEN
+        RAISE EXCEPTION 'At most 20 active device tokens per user';
+    END IF;
+
+    v_token := 'dsc_' || encode(extensions.gen_random_bytes(32), 'hex');
+    v_device_id := 'headless_' || encode(extensions.gen_random_bytes(8), 'hex');
+
+    INSERT INTO device_tokens (user_id, device_id, name, token_hash)
+    VALUES (auth.uid(), v_device_id, btrim(p_name), encode(extensions.digest(v_token, 'sha256'), 'hex'))
+    RETURNING id INTO v_token_id;
+
+    RETURN QUERY SELECT v_token_id, v_token, v_device_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoked tokens can no longer be exchanged; access tokens already issued expire on their own
+CREATE OR REPLACE FUNCTION revoke_device_token(p_token_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF device_session_id() IS NOT NULL THEN
+        RAISE EXCEPTION 'Device sessions cannot manage device tokens';
+    END IF;
+
+    UPDATE device_tokens
+    SET revoked_at = NOW()
+    WHERE id = p_token_id
+      AND user_id = auth.uid()
+      AND revoked_at IS NULL;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION create_device_token TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_device_token TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Device token setup completed successfully!';
+END;
+$$;
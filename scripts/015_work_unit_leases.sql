@@ -0,0 +1,457 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - WORK UNIT LEASES
+-- ============================================================================
+-- Devices no longer pick operations and insert their own executions. They
+-- call claim_work_unit, which atomically leases one replica slot of an open
+-- unit and records the execution as 'pending' with a lease deadline. Running
+-- devices renew the lease on a timer; leases that run out are marked 'expired'
+-- so the slot returns to the pool for another device
+-- Run this AFTER 014_device_tokens.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+ALTER TABLE public.task_executions
+DROP CONSTRAINT IF EXISTS task_executions_status_check;
+
+ALTER TABLE public.task_executions
+ADD CONSTRAINT task_executions_status_check
+  CHECK (status IN ('pending', 'running', 'paused', 'resumed', 'completed', 'failed', 'cancelled', 'expired'));
+
+-- Deadline by which the holder must renew or finish, NULL for executions that hold no slot
+ALTER TABLE public.task_executions
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_task_executions_lease
+  ON public.task_executions(lease_expires_at)
+  WHERE status IN ('pending', 'running', 'paused', 'resumed');
+
+-- Give executions that were already in flight a lease so abandoned ones are reclaimed too
+UPDATE public.task_executions
+SET lease_expires_at = NOW() + INTERVAL '10 minutes'
+WHERE status IN ('pending', 'running', 'paused', 'resumed')
+  AND work_unit_id IS NOT NULL
+  AND lease_expires_at IS NULL;
+
+-- Clients own their execution rows, so replica slots are only taken through
+-- claim_work_unit, only the lease functions may move a deadline, and an expired
+-- execution stays expired whatever its former holder writes
+CREATE OR REPLACE FUNCTION public.protect_execution_lease()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('dedsec.lease', true), '') <> 'on'
+     AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      IF NEW.work_unit_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Work units must be claimed through claim_work_unit';
+      END IF;
+      NEW.lease_expires_at := NULL;
+    ELSE
+      NEW.lease_expires_at := OLD.lease_expires_at;
+      IF OLD.status = 'expired' THEN
+        NEW.status := 'expired';
+      END IF;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_execution_lease_trigger ON public.task_executions;
+CREATE TRIGGER protect_execution_lease_trigger
+  BEFORE INSERT OR UPDATE ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_execution_lease();
+
+-- Replaces 010's version: writes made by the lease functions are trusted like
+-- those made during submission and verification
+CREATE OR REPLACE FUNCTION public.protect_execution_result()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('dedsec.submission', true), '') <> 'on'
+     AND COALESCE(current_setting('dedsec.verifier', true), '') <> 'on'
+     AND COALESCE(current_setting('dedsec.lease', true), '') <> 'on'
+     AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.result_data := NULL;
+      NEW.verification_hash := NULL;
+      NEW.compute_time_ms := NULL;
+      NEW.cpu_time_seconds := NULL;
+      NEW.memory_usage_mb := NULL;
+    ELSE
+      NEW.result_data := OLD.result_data;
+      NEW.verification_hash := OLD.verification_hash;
+      NEW.work_unit_id := OLD.work_unit_id;
+      NEW.compute_time_ms := OLD.compute_time_ms;
+      NEW.cpu_time_seconds := OLD.cpu_time_seconds;
+      NEW.memory_usage_mb := OLD.memory_usage_mb;
+      IF OLD.status = 'completed' THEN
+        NEW.status := OLD.status;
+      END IF;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 2. LEASES
+-- ============================================================================
+
+-- How long a claim or renewal holds a replica slot
+CREATE OR REPLACE FUNCTION work_unit_lease_duration()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '10 minutes';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Release every slot whose holder stopped renewing. Runs before each claim and from maintenance.
+CREATE OR REPLACE FUNCTION expire_work_unit_leases()
+RETURNS INTEGER AS $$
+DECLARE
+    v_expired INTEGER;
+BEGIN
+    PERFORM set_config('dedsec.lease', 'on', true);
+
+    UPDATE task_executions
+    SET status = 'expired',
+        error_message = 'Lease expired',
+        completed_at = NOW()
+    WHERE status IN ('pending', 'running', 'paused', 'resumed')
+      AND lease_expires_at < NOW();
+    GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lease one replica slot of the first open unit this user may run and record the
+-- execution as 'pending'. Units being claimed or split by another device are skipped
+-- rather than waited on; a unit's replica count is checked again once it is locked.
+-- Operations unlock once the user has at least unlock_threshold verified results.
+CREATE OR REPLACE FUNCTION claim_work_unit(p_device_id TEXT)
+RETURNS TABLE (
+    execution_id UUID,
+    work_unit_id UUID,
+    operation_id UUID,
+    unit_index INTEGER,
+    parameters JSONB,
+    lease_expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_verified_results BIGINT;
+    v_unit RECORD;
+    v_claimed BOOLEAN := FALSE;
+    v_expires TIMESTAMPTZ;
+    v_execution_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A device session may only claim for the device its token was issued to
+    IF device_session_id() IS NOT NULL AND p_device_id IS DISTINCT FROM device_session_id() THEN
+        RAISE EXCEPTION 'Device sessions can only claim work for their own device';
+    END IF;
+
+    PERFORM expire_work_unit_leases();
+
+    SELECT COUNT(*) INTO v_verified_results
+    FROM task_executions te
+    WHERE te.user_id = auth.uid()
+      AND te.status = 'completed'
+      AND te.verification_status = 'verified';
+
+    FOR attempt IN 1..3 LOOP
+        SELECT wu.id, wu.operation_id, wu.unit_index, wu.parameters,
+               CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END AS max_replicas
+        INTO v_unit
+        FROM work_units wu
+        JOIN operations o ON o.id = wu.operation_id
+        WHERE o.is_active = TRUE
+          AND o.unlock_threshold <= v_verified_results
+          AND wu.status IN ('pending', 'disputed')
+          AND NOT EXISTS (
+              SELECT 1 FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND (te.user_id = auth.uid() OR te.device_id = p_device_id)
+          )
+          AND (
+              SELECT COUNT(*) FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+          ) < CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END
+        ORDER BY o.created_at, wu.unit_index
+        LIMIT 1
+        FOR UPDATE OF wu SKIP LOCKED;
+
+        IF NOT FOUND THEN
+            RETURN;
+        END IF;
+
+        -- Another device may have committed a claim on this unit after the search began
+        IF (
+            SELECT COUNT(*) FROM task_executions te
+            WHERE te.work_unit_id = v_unit.id
+              AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+        ) < v_unit.max_replicas THEN
+            v_claimed := TRUE;
+            EXIT;
+        END IF;
+    END LOOP;
+
+    IF NOT v_claimed THEN
+        RETURN;
+    END IF;
+
+    v_expires := NOW() + work_unit_lease_duration();
+
+    PERFORM set_config('dedsec.lease', 'on', true);
+    INSERT INTO task_executions (operation_id, work_unit_id, user_id, device_id, task_data, status, lease_expires_at)
+    VALUES (v_unit.operation_id, v_unit.id, auth.uid(), p_device_id, v_unit.parameters, 'pending', v_expires)
+    RETURNING id INTO v_execution_id;
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN QUERY SELECT v_execution_id, v_unit.id, v_unit.operation_id, v_unit.unit_index, v_unit.parameters, v_expires;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Extend the caller's lease on an unfinished execution, or give an execution started
+-- before leases existed its first one. Returns the new deadline, or NULL once the
+-- lease has been lost and the work should be abandoned.
+CREATE OR REPLACE FUNCTION renew_work_unit_lease(p_execution_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_expires TIMESTAMPTZ;
+BEGIN
+    PERFORM set_config('dedsec.lease', 'on', true);
+
+    UPDATE task_executions
+    SET lease_expires_at = NOW() + work_unit_lease_duration()
+    WHERE id = p_execution_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'running', 'paused', 'resumed')
+      AND (lease_expires_at IS NULL OR lease_expires_at >= NOW())
+    RETURNING lease_expires_at INTO v_expires;
+
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN v_expires;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give a claimed slot back straight away, e.g. when the device cannot run the unit
+CREATE OR REPLACE FUNCTION release_work_unit_lease(p_execution_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+    PERFORM set_config('dedsec.lease', 'on', true);
+
+    UPDATE task_executions
+    SET status = 'expired',
+        error_message = COALESCE(p_reason, 'Lease released'),
+        lease_expires_at = NOW(),
+        completed_at = NOW()
+    WHERE id = p_execution_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'running', 'paused', 'resumed');
+
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- request_work_unit handed the same unit to every caller until one of them inserted an execution
+DROP FUNCTION IF EXISTS request_work_unit(UUID, TEXT);
+
+-- ============================================================================
+-- 3. SPLITTING UNDER A LEASE
+-- ============================================================================
+
+-- Same rules as before, except that only a caller holding a live unstarted claim
+-- on the unit may split it, and that claim does not count as a replica: the
+-- device that leased an untouched unit sizes it before running it, while claims
+-- by other devices still freeze its parameters
+CREATE OR REPLACE FUNCTION split_work_unit(
+    p_work_unit_id UUID,
+    p_head JSONB,
+    p_tail JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_unit RECORD;
+    v_start_key TEXT;
+    v_end_key TEXT;
+    v_start BIGINT;
+    v_end BIGINT;
+    v_boundary BIGINT;
+BEGIN
+    IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT wu.id, wu.operation_id, wu.parameters, wu.status INTO v_unit
+    FROM work_units wu
+    JOIN operations o ON o.id = wu.operation_id
+    WHERE wu.id = p_work_unit_id
+      AND o.is_active = TRUE
+    FOR UPDATE OF wu;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF auth.role() IS DISTINCT FROM 'service_role'
+       AND NOT EXISTS (
+           SELECT 1 FROM task_executions te
+           WHERE te.work_unit_id = p_work_unit_id
+             AND te.user_id = auth.uid()
+             AND te.status = 'pending'
+             AND te.lease_expires_at >= NOW()
+       ) THEN
+        RETURN v_unit.parameters;
+    END IF;
+
+    IF v_unit.status <> 'pending'
+       OR EXISTS (
+           SELECT 1 FROM task_executions te
+           WHERE te.work_unit_id = p_work_unit_id
+             AND te.status <> 'expired'
+             AND NOT (te.user_id = auth.uid() AND te.status = 'pending')
+       ) THEN
+        RETURN v_unit.parameters;
+    END IF;
+
+    IF v_unit.parameters ? 'range_end' THEN
+        v_start_key := 'range_start';
+        v_end_key := 'range_end';
+    ELSIF v_unit.parameters ? 'keyspace_end' THEN
+        v_start_key := 'keyspace_start';
+        v_end_key := 'keyspace_end';
+    ELSE
+        RETURN v_unit.parameters;
+    END IF;
+
+    v_start := COALESCE((v_unit.parameters->>v_start_key)::BIGINT, 0);
+    v_end := (v_unit.parameters->>v_end_key)::BIGINT;
+    v_boundary := (p_head->>v_end_key)::BIGINT;
+
+    IF (p_head->>v_start_key)::BIGINT IS DISTINCT FROM v_start
+       OR (p_tail->>v_start_key)::BIGINT IS DISTINCT FROM v_boundary
+       OR (p_tail->>v_end_key)::BIGINT IS DISTINCT FROM v_end
+       OR v_boundary - v_start < 1000
+       OR v_end - v_boundary < 1000
+       OR (p_head - v_start_key - v_end_key) <> (v_unit.parameters - v_start_key - v_end_key)
+       OR (p_tail - v_start_key - v_end_key) <> (v_unit.parameters - v_start_key - v_end_key)
+       OR (SELECT COUNT(*) FROM work_units WHERE operation_id = v_unit.operation_id) >= 100000 THEN
+        RETURN v_unit.parameters;
+    END IF;
+
+    UPDATE work_units SET parameters = p_head WHERE id = p_work_unit_id;
+
+    -- The caller's claim now covers the head only
+    UPDATE task_executions
+    SET task_data = p_head
+    WHERE work_unit_id = p_work_unit_id
+      AND user_id = auth.uid()
+      AND status = 'pending';
+
+    INSERT INTO work_units (operation_id, unit_index, parameters)
+    SELECT v_unit.operation_id, MAX(unit_index) + 1, p_tail
+    FROM work_units
+    WHERE operation_id = v_unit.operation_id;
+
+    RETURN p_head;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. MAINTENANCE
+-- ============================================================================
+
+-- Scheduled maintenance now also reclaims abandoned leases
+CREATE OR REPLACE FUNCTION scheduled_maintenance()
+RETURNS TEXT AS $$
+DECLARE
+    result_text TEXT := '';
+    deleted_count INTEGER;
+BEGIN
+    -- Return abandoned replica slots to the pool
+    result_text := result_text || format('Expired %s work unit leases. ', expire_work_unit_leases());
+
+    -- Settle outstanding work unit verifications
+    result_text := result_text || format('Verified %s work units. ', verify_pending_work_units());
+
+    -- Clean up old task executions (older than 90 days)
+    DELETE FROM task_executions
+    WHERE created_at < NOW() - INTERVAL '90 days';
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    result_text := result_text || format('Deleted %s old task executions. ', deleted_count);
+
+    -- Clean up old compromise logs (older than 180 days)
+    DELETE FROM compromise_logs
+    WHERE created_at < NOW() - INTERVAL '180 days' AND resolved = TRUE;
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    result_text := result_text || format('Deleted %s resolved compromise logs. ', deleted_count);
+
+    -- Clean up old worker heartbeats (older than 7 days)
+    DELETE FROM worker_heartbeats
+    WHERE updated_at < NOW() - INTERVAL '7 days';
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    result_text := result_text || format('Deleted %s old worker heartbeats. ', deleted_count);
+
+    -- Update leaderboard caches
+    PERFORM update_leaderboard_cache('contribution', 'daily');
+    PERFORM update_leaderboard_cache('contribution', 'weekly');
+    PERFORM update_leaderboard_cache('contribution', 'monthly');
+    result_text := result_text || 'Updated leaderboard caches. ';
+
+    -- Update network metrics
+    INSERT INTO network_metrics (
+        active_users,
+        total_cpu_cores,
+        total_memory_gb,
+        operations_per_second,
+        network_efficiency,
+        average_latency_ms
+    )
+    SELECT
+        (SELECT COUNT(DISTINCT user_id) FROM user_sessions WHERE last_active >= NOW() - INTERVAL '1 hour'),
+        (SELECT COALESCE(SUM((hardware_specs->>'cpu_cores')::INTEGER), 0) FROM user_sessions WHERE is_contributing = TRUE),
+        (SELECT COALESCE(SUM((hardware_specs->>'total_memory_gb')::NUMERIC), 0) FROM user_sessions WHERE is_contributing = TRUE),
+        (SELECT COUNT(*) FROM task_executions WHERE created_at >= NOW() - INTERVAL '1 minute')::DECIMAL / 60,
+        75.0, -- Default efficiency
+        50    -- Default latency
+    ;
+    result_text := result_text || 'Updated network metrics. ';
+
+    RETURN result_text || 'Maintenance completed successfully.';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION claim_work_unit TO authenticated;
+GRANT EXECUTE ON FUNCTION renew_work_unit_lease TO authenticated;
+GRANT EXECUTE ON FUNCTION release_work_unit_lease TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_work_unit_leases TO service_role;
+GRANT EXECUTE ON FUNCTION split_work_unit TO authenticated;
+GRANT EXECUTE ON FUNCTION scheduled_maintenance TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Work unit lease setup completed successfully!';
+  RAISE NOTICE 'Active leases: %', (
+    SELECT COUNT(*) FROM public.task_executions
+    WHERE status IN ('pending', 'running', 'paused', 'resumed') AND lease_expires_at IS NOT NULL
+  );
+END;
+$$;
@@ -0,0 +1,220 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - PRIORITY AND FAIR-SHARE SCHEDULING
+-- ============================================================================
+-- Operations carry a priority and a fair-share weight. claim_work_unit serves
+-- the highest priority with open units first, and within a priority hands the
+-- next unit to the operation with the least recent service per unit of weight
+-- (weighted fair queuing over claims in the last hour)
+-- Run this AFTER 015_work_unit_leases.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Higher priorities are always served first; weights split throughput within a priority
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0 CHECK (priority BETWEEN 0 AND 10),
+ADD COLUMN IF NOT EXISTS share_weight NUMERIC NOT NULL DEFAULT 1 CHECK (share_weight > 0 AND share_weight <= 100);
+
+CREATE INDEX IF NOT EXISTS idx_operations_active_priority ON public.operations(priority DESC) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_task_executions_operation_created ON public.task_executions(operation_id, created_at);
+
+-- ============================================================================
+-- 2. ASSIGNMENT
+-- ============================================================================
+
+-- Service an operation has received recently; older claims no longer count against it
+CREATE OR REPLACE FUNCTION fair_share_window()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '1 hour';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same claim as before, ordered by priority and then by recent claims per unit of weight.
+-- Units are sized to similar durations per device, so claims approximate compute time,
+-- and counting in-flight claims keeps concurrent devices from piling onto one operation.
+CREATE OR REPLACE FUNCTION claim_work_unit(p_device_id TEXT)
+RETURNS TABLE (
+    execution_id UUID,
+    work_unit_id UUID,
+    operation_id UUID,
+    unit_index INTEGER,
+    parameters JSONB,
+    lease_expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_verified_results BIGINT;
+    v_unit RECORD;
+    v_claimed BOOLEAN := FALSE;
+    v_expires TIMESTAMPTZ;
+    v_execution_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A device session may only claim for the device its token was issued to
+    IF device_session_id() IS NOT NULL AND p_device_id IS DISTINCT FROM device_session_id() THEN
+        RAISE EXCEPTION 'Device sessions can only claim work for their own device';
+    END IF;
+
+    PERFORM expire_work_unit_leases();
+
+    SELECT COUNT(*) INTO v_verified_results
+    FROM task_executions te
+    WHERE te.user_id = auth.uid()
+      AND te.status = 'completed'
+      AND te.verification_status = 'verified';
+
+    FOR attempt IN 1..3 LOOP
+        WITH service AS (
+            SELECT te.operation_id, COUNT(*) AS recent_claims
+            FROM task_executions te
+            WHERE te.created_at >= NOW() - fair_share_window()
+            GROUP BY te.operation_id
+        )
+        SELECT wu.id, wu.operation_id, wu.unit_index, wu.parameters,
+               CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END AS max_replicas
+        INTO v_unit
+        FROM work_units wu
+        JOIN operations o ON o.id = wu.operation_id
+        LEFT JOIN service s ON s.operation_id = o.id
+        WHERE o.is_active = TRUE
+          AND o.unlock_threshold <= v_verified_results
+          AND wu.status IN ('pending', 'disputed')
+          AND NOT EXISTS (
+              SELECT 1 FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND (te.user_id = auth.uid() OR te.device_id = p_device_id)
+          )
+          AND (
+              SELECT COUNT(*) FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+          ) < CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END
+        ORDER BY o.priority DESC,
+                 COALESCE(s.recent_claims, 0) / o.share_weight,
+                 o.created_at,
+                 wu.unit_index
+        LIMIT 1
+        FOR UPDATE OF wu SKIP LOCKED;
+
+        IF NOT FOUND THEN
+            RETURN;
+        END IF;
+
+        -- Another device may have committed a claim on this unit after the search began
+        IF (
+            SELECT COUNT(*) FROM task_executions te
+            WHERE te.work_unit_id = v_unit.id
+              AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+        ) < v_unit.max_replicas THEN
+            v_claimed := TRUE;
+            EXIT;
+        END IF;
+    END LOOP;
+
+    IF NOT v_claimed THEN
+        RETURN;
+    END IF;
+
+    v_expires := NOW() + work_unit_lease_duration();
+
+    PERFORM set_config('dedsec.lease', 'on', true);
+    INSERT INTO task_executions (operation_id, work_unit_id, user_id, device_id, task_data, status, lease_expires_at)
+    VALUES (v_unit.operation_id, v_unit.id, auth.uid(), p_device_id, v_unit.parameters, 'pending', v_expires)
+    RETURNING id INTO v_execution_id;
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN QUERY SELECT v_execution_id, v_unit.id, v_unit.operation_id, v_unit.unit_index, v_unit.parameters, v_expires;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. SHARES
+-- ============================================================================
+
+-- Each operation's share of network throughput over the fair-share window, next to the
+-- share its weight entitles it to. Only operations in the highest priority that still
+-- has open units are being served, so every other operation's target share is 0.
+CREATE OR REPLACE FUNCTION get_operation_shares(p_operation_ids UUID[] DEFAULT NULL)
+RETURNS TABLE (
+    operation_id UUID,
+    priority INTEGER,
+    share_weight NUMERIC,
+    recent_claims BIGINT,
+    recent_compute_ms BIGINT,
+    throughput_share NUMERIC,
+    target_share NUMERIC
+) AS $$
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin = TRUE) THEN
+        RAISE EXCEPTION 'Only admins can view operation shares';
+    END IF;
+
+    RETURN QUERY
+    WITH service AS (
+        SELECT te.operation_id,
+               COUNT(*) AS claims,
+               COALESCE(SUM(te.compute_time_ms) FILTER (WHERE te.status = 'completed'), 0) AS compute_ms
+        FROM task_executions te
+        WHERE te.created_at >= NOW() - fair_share_window()
+        GROUP BY te.operation_id
+    ),
+    open_operations AS (
+        SELECT o.id, o.priority, o.share_weight
+        FROM operations o
+        WHERE o.is_active = TRUE
+          AND EXISTS (
+              SELECT 1 FROM work_units wu
+              WHERE wu.operation_id = o.id AND wu.status IN ('pending', 'disputed')
+          )
+    ),
+    served_tier AS (
+        SELECT MAX(oo.priority) AS priority FROM open_operations oo
+    ),
+    served_weight AS (
+        SELECT SUM(oo.share_weight) AS total_weight
+        FROM open_operations oo
+        JOIN served_tier st ON st.priority = oo.priority
+    ),
+    totals AS (
+        SELECT NULLIF(SUM(sv.compute_ms), 0) AS compute_ms FROM service sv
+    )
+    SELECT o.id,
+           o.priority,
+           o.share_weight,
+           COALESCE(s.claims, 0),
+           COALESCE(s.compute_ms, 0)::BIGINT,
+           COALESCE(COALESCE(s.compute_ms, 0) / t.compute_ms, 0)::NUMERIC,
+           CASE
+               WHEN oo.id IS NOT NULL AND o.priority = st.priority THEN o.share_weight / sw.total_weight
+               ELSE 0
+           END::NUMERIC
+    FROM operations o
+    CROSS JOIN served_tier st
+    CROSS JOIN served_weight sw
+    CROSS JOIN totals t
+    LEFT JOIN service s ON s.operation_id = o.id
+    LEFT JOIN open_operations oo ON oo.id = o.id
+    WHERE p_operation_ids IS NULL OR o.id = ANY(p_operation_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION claim_work_unit TO authenticated;
+GRANT EXECUTE ON FUNCTION get_operation_shares TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Fair-share scheduling setup completed successfully!';
+END;
+$$;
@@ -0,0 +1,156 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - CAPABILITY MATCHING
+-- ============================================================================
+-- Operations declare the minimum device they need: CPU cores, memory, the
+-- hardware performance score and whether the device must be charging.
+-- Devices report their capabilities under their current resource limits with
+-- every claim, and claim_work_unit only offers units they satisfy
+-- Run this AFTER 016_fair_share_scheduling.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Zero and FALSE mean no requirement, so existing operations stay open to every device
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS min_cpu_cores NUMERIC NOT NULL DEFAULT 0 CHECK (min_cpu_cores >= 0),
+ADD COLUMN IF NOT EXISTS min_memory_mb INTEGER NOT NULL DEFAULT 0 CHECK (min_memory_mb >= 0),
+ADD COLUMN IF NOT EXISTS min_performance_score INTEGER NOT NULL DEFAULT 0 CHECK (min_performance_score BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS requires_charging BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- 2. ASSIGNMENT
+-- ============================================================================
+
+-- The capabilities argument changes the signature, so the one-argument version goes
+DROP FUNCTION IF EXISTS claim_work_unit(TEXT);
+
+-- Same claim as before, limited to operations whose requirements p_capabilities meets:
+-- {cpu_cores, memory_mb, performance_score, is_charging}. cpu_cores is the cores' worth
+-- of CPU the device's limit allows and memory_mb is already capped by max_memory_mb.
+-- Missing keys count as 0 / FALSE, so such devices only get unrestricted operations.
+CREATE OR REPLACE FUNCTION claim_work_unit(p_device_id TEXT, p_capabilities JSONB DEFAULT '{}')
+RETURNS TABLE (
+    execution_id UUID,
+    work_unit_id UUID,
+    operation_id UUID,
+    unit_index INTEGER,
+    parameters JSONB,
+    lease_expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_verified_results BIGINT;
+    v_unit RECORD;
+    v_claimed BOOLEAN := FALSE;
+    v_expires TIMESTAMPTZ;
+    v_execution_id UUID;
+    v_cpu_cores NUMERIC := COALESCE((p_capabilities->>'cpu_cores')::NUMERIC, 0);
+    v_memory_mb NUMERIC := COALESCE((p_capabilities->>'memory_mb')::NUMERIC, 0);
+    v_performance_score NUMERIC := COALESCE((p_capabilities->>'performance_score')::NUMERIC, 0);
+    v_is_charging BOOLEAN := COALESCE((p_capabilities->>'is_charging')::BOOLEAN, FALSE);
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A device session may only claim for the device its token was issued to
+    IF device_session_id() IS NOT NULL AND p_device_id IS DISTINCT FROM device_session_id() THEN
+        RAISE EXCEPTION 'Device sessions can only claim work for their own device';
+    END IF;
+
+    PERFORM expire_work_unit_leases();
+
+    SELECT COUNT(*) INTO v_verified_results
+    FROM task_executions te
+    WHERE te.user_id = auth.uid()
+      AND te.status = 'completed'
+      AND te.verification_status = 'verified';
+
+    FOR attempt IN 1..3 LOOP
+        WITH service AS (
+            SELECT te.operation_id, COUNT(*) AS recent_claims
+            FROM task_executions te
+            WHERE te.created_at >= NOW() - fair_share_window()
+            GROUP BY te.operation_id
+        )
+        SELECT wu.id, wu.operation_id, wu.unit_index, wu.parameters,
+               CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END AS max_replicas
+        INTO v_unit
+        FROM work_units wu
+        JOIN operations o ON o.id = wu.operation_id
+        LEFT JOIN service s ON s.operation_id = o.id
+        WHERE o.is_active = TRUE
+          AND o.unlock_threshold <= v_verified_results
+          AND o.min_cpu_cores <= v_cpu_cores
+          AND o.min_memory_mb <= v_memory_mb
+          AND o.min_performance_score <= v_performance_score
+          AND (NOT o.requires_charging OR v_is_charging)
+          AND wu.status IN ('pending', 'disputed')
+          AND NOT EXISTS (
+              SELECT 1 FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND (te.user_id = auth.uid() OR te.device_id = p_device_id)
+          )
+          AND (
+              SELECT COUNT(*) FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+          ) < CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END
+        ORDER BY o.priority DESC,
+                 COALESCE(s.recent_claims, 0) / o.share_weight,
+                 o.created_at,
+                 wu.unit_index
+        LIMIT 1
+        FOR UPDATE OF wu SKIP LOCKED;
+
+        IF NOT FOUND THEN
+            RETURN;
+        END IF;
+
+        -- Another device may have committed a claim on this unit after the search began
+        IF (
+            SELECT COUNT(*) FROM task_executions te
+            WHERE te.work_unit_id = v_unit.id
+              AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+        ) < v_unit.max_replicas THEN
+            v_claimed := TRUE;
+            EXIT;
+        END IF;
+    END LOOP;
+
+    IF NOT v_claimed THEN
+        RETURN;
+    END IF;
+
+    v_expires := NOW() + work_unit_lease_duration();
+
+    PERFORM set_config('dedsec.lease', 'on', true);
+    INSERT INTO task_executions (operation_id, work_unit_id, user_id, device_id, task_data, status, lease_expires_at)
+    VALUES (v_unit.operation_id, v_unit.id, auth.uid(), p_device_id, v_unit.parameters, 'pending', v_expires)
+    RETURNING id INTO v_execution_id;
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN QUERY SELECT v_execution_id, v_unit.id, v_unit.operation_id, v_unit.unit_index, v_unit.parameters, v_expires;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION claim_work_unit TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Capability matching setup completed successfully!';
+  RAISE NOTICE 'Operations with requirements: %', (
+    SELECT COUNT(*) FROM public.operations
+    WHERE min_cpu_cores > 0 OR min_memory_mb > 0 OR min_performance_score > 0 OR requires_charging
+  );
+END;
+$$;
@@ -0,0 +1,311 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - RETRY POLICY AND DEAD LETTERS
+-- ============================================================================
+-- A failed execution used to drop its work. Failures (errors, rejected
+-- proofs and leases that ran out because the device died) are now counted
+-- per unit. The unit is offered again after an exponential backoff, always to
+-- a device that has not run it yet, until it exceeds its operation's
+-- max_retries and moves to 'dead_letter'. Admins inspect dead-lettered units
+-- with their aggregated errors and requeue them
+-- Run this AFTER 017_capability_matching.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+-- Retries allowed after the first failure, and the delay before the first retry
+ALTER TABLE public.operations
+ADD COLUMN IF NOT EXISTS max_retries INTEGER NOT NULL DEFAULT 3 CHECK (max_retries BETWEEN 0 AND 20),
+ADD COLUMN IF NOT EXISTS retry_backoff_seconds INTEGER NOT NULL DEFAULT 30 CHECK (retry_backoff_seconds BETWEEN 0 AND 3600);
+
+ALTER TABLE public.work_units
+DROP CONSTRAINT IF EXISTS work_units_status_check;
+
+ALTER TABLE public.work_units
+ADD CONSTRAINT work_units_status_check
+  CHECK (status IN ('pending', 'verified', 'disputed', 'dead_letter'));
+
+-- failure_count restarts at 0 when an admin requeues the unit
+ALTER TABLE public.work_units
+ADD COLUMN IF NOT EXISTS failure_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS retry_after TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS requeued_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_work_units_dead_letter
+  ON public.work_units(dead_lettered_at)
+  WHERE status = 'dead_letter';
+
+-- ============================================================================
+-- 2. FAILURE ACCOUNTING
+-- ============================================================================
+
+-- Delay before the next attempt after p_failures failures: the operation's base delay
+-- doubled for every further failure, capped at an hour
+CREATE OR REPLACE FUNCTION work_unit_retry_delay(p_base_seconds INTEGER, p_failures INTEGER)
+RETURNS INTERVAL AS $$
+    SELECT make_interval(secs => LEAST(3600, p_base_seconds * power(2, LEAST(GREATEST(p_failures - 1, 0), 16))));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Devices that crash on a unit never report it, so leases that ran out count as
+-- failures too. Leases given back with release_work_unit_lease do not.
+CREATE OR REPLACE FUNCTION public.record_work_unit_failure()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.work_unit_id IS NOT NULL
+     AND OLD.status IN ('pending', 'running', 'paused', 'resumed')
+     AND (NEW.status = 'failed' OR (NEW.status = 'expired' AND NEW.error_message = 'Lease expired')) THEN
+    UPDATE work_units wu
+    SET failure_count = wu.failure_count + 1,
+        retry_after = NOW() + work_unit_retry_delay(o.retry_backoff_seconds, wu.failure_count + 1),
+        status = CASE WHEN wu.failure_count + 1 > o.max_retries THEN 'dead_letter' ELSE wu.status END,
+        dead_lettered_at = CASE WHEN wu.failure_count + 1 > o.max_retries THEN NOW() ELSE wu.dead_lettered_at END
+    FROM operations o
+    WHERE wu.id = NEW.work_unit_id
+      AND o.id = wu.operation_id
+      AND wu.status IN ('pending', 'disputed');
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_work_unit_failure_trigger ON public.task_executions;
+CREATE TRIGGER record_work_unit_failure_trigger
+  AFTER UPDATE OF status ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.record_work_unit_failure();
+
+-- ============================================================================
+-- 3. ASSIGNMENT
+-- ============================================================================
+
+-- Same claim as before, skipping units still backing off. A device never gets a unit
+-- it has already run, so every retry lands on a different device; after a requeue,
+-- the devices that failed it before may try again.
+CREATE OR REPLACE FUNCTION claim_work_unit(p_device_id TEXT, p_capabilities JSONB DEFAULT '{}')
+RETURNS TABLE (
+    execution_id UUID,
+    work_unit_id UUID,
+    operation_id UUID,
+    unit_index INTEGER,
+    parameters JSONB,
+    lease_expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_verified_results BIGINT;
+    v_unit RECORD;
+    v_claimed BOOLEAN := FALSE;
+    v_expires TIMESTAMPTZ;
+    v_execution_id UUID;
+    v_cpu_cores NUMERIC := COALESCE((p_capabilities->>'cpu_cores')::NUMERIC, 0);
+    v_memory_mb NUMERIC := COALESCE((p_capabilities->>'memory_mb')::NUMERIC, 0);
+    v_performance_score NUMERIC := COALESCE((p_capabilities->>'performance_score')::NUMERIC, 0);
+    v_is_charging BOOLEAN := COALESCE((p_capabilities->>'is_charging')::BOOLEAN, FALSE);
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A device session may only claim for the device its token was issued to
+    IF device_session_id() IS NOT NULL AND p_device_id IS DISTINCT FROM device_session_id() THEN
+        RAISE EXCEPTION 'Device sessions can only claim work for their own device';
+    END IF;
+
+    PERFORM expire_work_unit_leases();
+
+    SELECT COUNT(*) INTO v_verified_results
+    FROM task_executions te
+    WHERE te.user_id = auth.uid()
+      AND te.status = 'completed'
+      AND te.verification_status = 'verified';
+
+    FOR attempt IN 1..3 LOOP
+        WITH service AS (
+            SELECT te.operation_id, COUNT(*) AS recent_claims
+            FROM task_executions te
+            WHERE te.created_at >= NOW() - fair_share_window()
+            GROUP BY te.operation_id
+        )
+        SELECT wu.id, wu.operation_id, wu.unit_index, wu.parameters,
+               CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END AS max_replicas
+        INTO v_unit
+        FROM work_units wu
+        JOIN operations o ON o.id = wu.operation_id
+        LEFT JOIN service s ON s.operation_id = o.id
+        WHERE o.is_active = TRUE
+          AND o.unlock_threshold <= v_verified_results
+          AND o.min_cpu_cores <= v_cpu_cores
+          AND o.min_memory_mb <= v_memory_mb
+          AND o.min_performance_score <= v_performance_score
+          AND (NOT o.requires_charging OR v_is_charging)
+          AND wu.status IN ('pending', 'disputed')
+          AND (wu.retry_after IS NULL OR wu.retry_after <= NOW())
+          AND NOT EXISTS (
+              SELECT 1 FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND (te.user_id = auth.uid() OR te.device_id = p_device_id)
+                AND (wu.requeued_at IS NULL
+                     OR te.created_at >= wu.requeued_at
+                     OR te.status NOT IN ('failed', 'expired'))
+          )
+          AND (
+              SELECT COUNT(*) FROM task_executions te
+              WHERE te.work_unit_id = wu.id
+                AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+          ) < CASE WHEN wu.status = 'disputed' THEN o.replication_factor * 2 ELSE o.replication_factor END
+        ORDER BY o.priority DESC,
+                 COALESCE(s.recent_claims, 0) / o.share_weight,
+                 o.created_at,
+                 wu.unit_index
+        LIMIT 1
+        FOR UPDATE OF wu SKIP LOCKED;
+
+        IF NOT FOUND THEN
+            RETURN;
+        END IF;
+
+        -- Another device may have committed a claim on this unit after the search began
+        IF (
+            SELECT COUNT(*) FROM task_executions te
+            WHERE te.work_unit_id = v_unit.id
+              AND te.status IN ('pending', 'running', 'paused', 'resumed', 'completed')
+        ) < v_unit.max_replicas THEN
+            v_claimed := TRUE;
+            EXIT;
+        END IF;
+    END LOOP;
+
+    IF NOT v_claimed THEN
+        RETURN;
+    END IF;
+
+    v_expires := NOW() + work_unit_lease_duration();
+
+    PERFORM set_config('dedsec.lease', 'on', true);
+    INSERT INTO task_executions (operation_id, work_unit_id, user_id, device_id, task_data, status, lease_expires_at)
+    VALUES (v_unit.operation_id, v_unit.id, auth.uid(), p_device_id, v_unit.parameters, 'pending', v_expires)
+    RETURNING id INTO v_execution_id;
+    PERFORM set_config('dedsec.lease', 'off', true);
+
+    RETURN QUERY SELECT v_execution_id, v_unit.id, v_unit.operation_id, v_unit.unit_index, v_unit.parameters, v_expires;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. DEAD LETTERS
+-- ============================================================================
+
+-- Dead-lettered units with the errors their executions reported since the last requeue,
+-- grouped by message with how often and on how many devices each occurred
+CREATE OR REPLACE FUNCTION get_dead_letter_units(p_operation_id UUID DEFAULT NULL)
+RETURNS TABLE (
+    work_unit_id UUID,
+    operation_id UUID,
+    operation_name TEXT,
+    unit_index INTEGER,
+    parameters JSONB,
+    failure_count INTEGER,
+    dead_lettered_at TIMESTAMPTZ,
+    errors JSONB
+) AS $$
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin = TRUE) THEN
+        RAISE EXCEPTION 'Only admins can view dead-lettered work units';
+    END IF;
+
+    RETURN QUERY
+    SELECT wu.id,
+           wu.operation_id,
+           o.name::TEXT,
+           wu.unit_index,
+           wu.parameters,
+           wu.failure_count,
+           wu.dead_lettered_at,
+           COALESCE((
+               SELECT jsonb_agg(
+                          jsonb_build_object(
+                              'message', e.message,
+                              'occurrences', e.occurrences,
+                              'devices', e.devices,
+                              'last_seen', e.last_seen
+                          )
+                          ORDER BY e.occurrences DESC, e.last_seen DESC
+                      )
+               FROM (
+                   SELECT COALESCE(te.error_message, 'Unknown error') AS message,
+                          COUNT(*) AS occurrences,
+                          COUNT(DISTINCT te.device_id) AS devices,
+                          MAX(COALESCE(te.completed_at, te.created_at)) AS last_seen
+                   FROM task_executions te
+                   WHERE te.work_unit_id = wu.id
+                     AND (te.status = 'failed' OR (te.status = 'expired' AND te.error_message = 'Lease expired'))
+                     AND (wu.requeued_at IS NULL OR te.created_at >= wu.requeued_at)
+                   GROUP BY COALESCE(te.error_message, 'Unknown error')
+               ) e
+           ), '[]'::JSONB)
+    FROM work_units wu
+    JOIN operations o ON o.id = wu.operation_id
+    WHERE wu.status = 'dead_letter'
+      AND (p_operation_id IS NULL OR wu.operation_id = p_operation_id)
+    ORDER BY wu.dead_lettered_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Put a dead-lettered unit back in the pool with a fresh retry budget
+CREATE OR REPLACE FUNCTION requeue_work_unit(p_work_unit_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin = TRUE) THEN
+        RAISE EXCEPTION 'Only admins can requeue work units';
+    END IF;
+
+    UPDATE work_units
+    SET status = 'pending',
+        failure_count = 0,
+        retry_after = NULL,
+        dead_lettered_at = NULL,
+        requeued_at = NOW()
+    WHERE id = p_work_unit_id
+      AND status = 'dead_letter';
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Dead-lettered units hold a job back, so progress reports them next to disputed ones
+CREATE OR REPLACE VIEW public.job_progress
+WITH (security_invoker = true) AS
+SELECT
+    o.id AS operation_id,
+    o.job_status,
+    COUNT(wu.id)::INTEGER AS units_total,
+    (COUNT(wu.id) FILTER (WHERE wu.status = 'verified'))::INTEGER AS units_verified,
+    (COUNT(wu.id) FILTER (WHERE wu.status = 'disputed'))::INTEGER AS units_disputed,
+    (COUNT(wu.id) FILTER (WHERE wu.status = 'dead_letter'))::INTEGER AS units_dead_letter
+FROM public.operations o
+LEFT JOIN public.work_units wu ON wu.operation_id = o.id
+GROUP BY o.id, o.job_status;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION claim_work_unit TO authenticated;
+GRANT EXECUTE ON FUNCTION get_dead_letter_units TO authenticated;
+GRANT EXECUTE ON FUNCTION requeue_work_unit TO authenticated;
+GRANT SELECT ON public.job_progress TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Retry policy setup completed successfully!';
+  RAISE NOTICE 'Dead-lettered work units: %', (
+    SELECT COUNT(*) FROM public.work_units WHERE status = 'dead_letter'
+  );
+END;
+$$;
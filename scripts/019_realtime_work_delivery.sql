@@ -0,0 +1,106 @@
+-- ============================================================================
+-- DEDSECCOMPUTE - REALTIME WORK DELIVERY
+-- ============================================================================
+-- Coordinators subscribe to changes on operations, work_units and their own
+-- task_executions instead of polling. Every change that can make a unit
+-- claimable touches its work_units row, and deactivating an operation
+-- revokes the leases on its in-flight executions, so running workers hear
+-- about it at once
+-- Run this AFTER 018_retry_policy.sql
+-- ============================================================================
+
+-- ============================================================================
+-- 1. REALTIME PUBLICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['operations', 'work_units', 'task_executions'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- 2. SLOT ANNOUNCEMENTS
+-- ============================================================================
+
+-- Last time one of the unit's replica slots came free. Failures already update the
+-- unit; released, cancelled and lost leases only do through this column.
+ALTER TABLE public.work_units
+ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.announce_released_slot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.work_unit_id IS NOT NULL
+     AND OLD.status IN ('pending', 'running', 'paused', 'resumed')
+     AND NEW.status IN ('expired', 'cancelled') THEN
+    UPDATE work_units
+    SET released_at = NOW()
+    WHERE id = NEW.work_unit_id
+      AND status IN ('pending', 'disputed');
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS announce_released_slot_trigger ON public.task_executions;
+CREATE TRIGGER announce_released_slot_trigger
+  AFTER UPDATE OF status ON public.task_executions
+  FOR EACH ROW EXECUTE FUNCTION public.announce_released_slot();
+
+-- ============================================================================
+-- 3. LEASE REVOCATION
+-- ============================================================================
+
+-- Deactivated operations are hidden from devices by RLS, so their holders learn about
+-- it from their own executions: every in-flight lease is revoked. Revocations are not
+-- failures and do not count against the units' retries.
+CREATE OR REPLACE FUNCTION public.revoke_leases_on_deactivation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.is_active = TRUE AND NEW.is_active = FALSE THEN
+    PERFORM set_config('dedsec.lease', 'on', true);
+
+    UPDATE task_executions
+    SET status = 'expired',
+        error_message = 'Operation deactivated',
+        lease_expires_at = NOW(),
+        completed_at = NOW()
+    WHERE operation_id = NEW.id
+      AND work_unit_id IS NOT NULL
+      AND status IN ('pending', 'running', 'paused', 'resumed');
+
+    PERFORM set_config('dedsec.lease', 'off', true);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS revoke_leases_on_deactivation_trigger ON public.operations;
+CREATE TRIGGER revoke_leases_on_deactivation_trigger
+  AFTER UPDATE OF is_active ON public.operations
+  FOR EACH ROW EXECUTE FUNCTION public.revoke_leases_on_deactivation();
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Realtime work delivery setup completed successfully!';
+  RAISE NOTICE 'Published tables: %', (
+    SELECT string_agg(tablename, ', ' ORDER BY tablename) FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public'
+      AND tablename IN ('operations', 'work_units', 'task_executions')
+  );
+END;
+$$;